@@ -8,11 +8,15 @@ const PORT = 3001;
 app.use(express.json());
 
 // Use contextMiddleware with 'authorization' header
-app.use(contextMiddleware());
+app.use(
+  contextMiddleware({
+    extract: { userId: { header: 'authorization', default: 'anonymous' } },
+  })
+);
 
 // Middleware to simulate setting initial data
 app.use((req, res, next) => {
-  const userId = req.headers['authorization'] || 'anonymous';
+  const userId = req.context.get('userId');
   if (!req.context.get('initialData')) {
     req.context.set('initialData', { count: 0, userId });
   }
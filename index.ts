@@ -1,3 +1,112 @@
-import { contextMiddleware, useContext } from './src/context-middleware';
+import {
+  contextMiddleware,
+  MyContext,
+  useContext,
+  useRequestId,
+  runWithContext,
+} from './src/context-middleware';
+import { MemoryContextStore, FileContextStore } from './src/context-store';
+import { createContext } from './src/create-context';
+import {
+  ContextValidationError,
+  ContextExtractionError,
+  ContextSealedError,
+} from './src/errors';
+import { runInContext, withContext, bindContext } from './src/run-in-context';
+import { contextErrorHandler } from './src/error-handler';
+import { contextAdminRouter } from './src/admin';
+import { PrometheusMetrics, metricsHandler } from './src/metrics';
+import { serialize, deserialize } from './src/serializer';
+import { installContextPropagation } from './src/propagation';
+import { createToken, ServiceContainer } from './src/container';
+import { useTenant } from './src/tenant';
+import {
+  createContextWorker,
+  forkWithContext,
+  runInWorkerContext,
+} from './src/worker-context';
+import {
+  httpContextHandler,
+  koaContextMiddleware,
+  fastifyContextHook,
+} from './src/adapters';
+import {
+  useTrace,
+  getTraceHeaders,
+  injectTraceHeaders,
+  tracedFetch,
+  createChildSpan,
+} from './src/trace-context';
+import {
+  createLogger,
+  ctxLogger,
+  streamSink,
+  pinoSink,
+  winstonSink,
+} from './src/logger';
 
-export { contextMiddleware, useContext };
+export {
+  contextMiddleware,
+  MyContext,
+  useContext,
+  useRequestId,
+  runWithContext,
+};
+export { MemoryContextStore, FileContextStore };
+export { createContext };
+export { runInContext, withContext, bindContext };
+export { ContextValidationError, ContextExtractionError, ContextSealedError };
+export { contextErrorHandler };
+export { contextAdminRouter };
+export { PrometheusMetrics, metricsHandler };
+export { serialize, deserialize };
+export { installContextPropagation };
+export { createToken, ServiceContainer };
+export { useTenant };
+export { createContextWorker, forkWithContext, runInWorkerContext };
+export { httpContextHandler, koaContextMiddleware, fastifyContextHook };
+export type { ContextualError } from './src/error-handler';
+export {
+  useTrace,
+  getTraceHeaders,
+  injectTraceHeaders,
+  tracedFetch,
+  createChildSpan,
+};
+export { createLogger, ctxLogger, streamSink, pinoSink, winstonSink };
+export type { ContextLogger } from './src/logger';
+export type {
+  ContextStore,
+  ContextSnapshot,
+  ContextProvider,
+  ContextProviders,
+  InjectionToken,
+  ServiceScope,
+  ServiceDefinition,
+  TenantOptions,
+  TenantConfig,
+  ContextWorkerOptions,
+  DestinationRule,
+  ExtractRule,
+  ExtractRules,
+  PropagationOptions,
+  ContextValidator,
+  ContextValidators,
+  RequestIdGenerator,
+  RequestIdOptions,
+  TraceContext,
+  LogLevel,
+  LogEntry,
+  LogSink,
+  LoggerOptions,
+  ContextErrorHandlerOptions,
+  ContextAdminOptions,
+  ContextMetrics,
+  MetricLabels,
+  Counter,
+  Gauge,
+  Histogram,
+  KoaLikeContext,
+  FastifyLikeRequest,
+  FastifyLikeReply,
+} from './src/types';
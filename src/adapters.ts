@@ -0,0 +1,107 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { asyncLocalStorage } from './context-storage';
+import { createRequestLifecycle } from './request-lifecycle';
+import {
+  ContextMiddlewareOptions,
+  FastifyLikeReply,
+  FastifyLikeRequest,
+  KoaLikeContext,
+} from './types';
+
+/**
+ * Wraps a raw `node:http` request listener so every request runs in its own context,
+ * available through `useContext()`. Accepts the same options as `contextMiddleware`.
+ * Requests with missing or invalid `extract` values are answered with 400 Bad Request
+ * without calling `handler`.
+ *
+ * @example
+ * import http from 'http';
+ * import { httpContextHandler, useContext } from '@bethel-nz/express-ctx';
+ *
+ * const server = http.createServer(
+ *   httpContextHandler((req, res) => {
+ *     res.end(`Request ${useContext()?.get('contextId')}`);
+ *   }, { requestId: true })
+ * );
+ */
+export const httpContextHandler = <
+  Req extends IncomingMessage = IncomingMessage,
+  Res extends ServerResponse = ServerResponse,
+  R = void,
+>(
+  handler: (req: Req, res: Res) => R,
+  options: ContextMiddlewareOptions = {}
+) => {
+  const lifecycle = createRequestLifecycle(options);
+
+  return (req: Req, res: Res): R => {
+    const { context, error } = lifecycle.open(req, res);
+    return asyncLocalStorage.run(context, () => {
+      if (error) {
+        res.statusCode = error.status;
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.end(error.message);
+        return undefined as unknown as R;
+      }
+      return handler(req, res);
+    });
+  };
+};
+
+/**
+ * Koa-style `(ctx, next)` middleware that runs downstream middleware in a new context,
+ * also exposed as `ctx.state.context`. Errors thrown downstream are reported to the
+ * `onError` hooks before Koa handles them. Missing or invalid `extract` values are
+ * thrown as a `ContextExtractionError` with status 400.
+ *
+ * @example
+ * const app = new Koa();
+ * app.use(koaContextMiddleware({ appName: 'MyApp', requestId: true }));
+ * app.use(async (ctx) => {
+ *   ctx.body = { requestId: useRequestId() };
+ * });
+ */
+export const koaContextMiddleware = (
+  options: ContextMiddlewareOptions = {}
+) => {
+  const lifecycle = createRequestLifecycle(options);
+
+  return (ctx: KoaLikeContext, next: () => Promise<unknown>) => {
+    const { context, error: extractionError } = lifecycle.open(
+      ctx.req,
+      ctx.res
+    );
+    ctx.state.context = context;
+
+    return asyncLocalStorage
+      .run(context, () =>
+        extractionError ? Promise.reject(extractionError) : next()
+      )
+      .catch((error: unknown) => {
+        context.reportError(error);
+        throw error;
+      });
+  };
+};
+
+/**
+ * Fastify `onRequest` hook that runs the rest of the request in a new context.
+ * Missing or invalid `extract` values fail the request with a 400 `ContextExtractionError`.
+ *
+ * @example
+ * const app = Fastify();
+ * app.addHook('onRequest', fastifyContextHook({ trace: true }));
+ * app.get('/', async () => ({ trace: useTrace() }));
+ */
+export const fastifyContextHook = (options: ContextMiddlewareOptions = {}) => {
+  const lifecycle = createRequestLifecycle(options);
+
+  return (
+    request: FastifyLikeRequest,
+    reply: FastifyLikeReply,
+    done: (error?: Error) => void
+  ) => {
+    const { context, error } = lifecycle.open(request.raw, reply.raw);
+    asyncLocalStorage.run(context, () => done(error));
+  };
+};
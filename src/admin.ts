@@ -0,0 +1,153 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import MyContext from './ctx';
+import { defaultContextStore } from './context-runtime';
+import { isSessionKey } from './session';
+import { decodeValue } from './serializer';
+import { redactValue } from './utils';
+import { AllowedValueTypesRecord, ContextAdminOptions } from './types';
+
+/**
+ * Summary of a stored context. `size` approximates its encoded entries in bytes; `keys`
+ * and `size` are `null` when a value cannot be encoded (for example a circular structure).
+ */
+const describeContext = (
+  id: string,
+  context: MyContext<AllowedValueTypesRecord>,
+  now: number
+) => {
+  let keys: number | null = null;
+  let size: number | null = null;
+  try {
+    const { entries } = context.snapshot();
+    keys = Object.keys(entries).length;
+    size = Buffer.byteLength(JSON.stringify(entries));
+  } catch {
+    // reported as unknown
+  }
+  return {
+    id,
+    session: isSessionKey(id),
+    age: now - context.createdAt,
+    idle: now - context.lastAccessedAt,
+    keys,
+    size,
+  };
+};
+
+/**
+ * Converts a decoded value to plain JSON for display: `Map`s become objects (or
+ * `[key, value]` pairs when a key is not a string), `Set`s arrays and `BigInt`s strings.
+ */
+const toDisplayValue = (value: unknown): unknown => {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toDisplayValue);
+  if (value instanceof Set) return Array.from(value, toDisplayValue);
+  if (value instanceof Map) {
+    const pairs = Array.from(value, ([key, item]) => [
+      toDisplayValue(key),
+      toDisplayValue(item),
+    ]);
+    return Array.from(value.keys()).every((key) => typeof key === 'string')
+      ? Object.fromEntries(pairs)
+      : pairs;
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, toDisplayValue(item)])
+  );
+};
+
+/**
+ * Express router for inspecting the context store. It lists live contexts with their
+ * age, key count and approximate size, dumps a single context with redaction applied,
+ * and force-evicts entries. Every request must pass `guard` first.
+ *
+ * Context IDs are path segments, so IDs containing `/` (tenant-namespaced entries)
+ * must be URL-encoded.
+ *
+ * @param options - The guard, the store to inspect and the keys to redact
+ *
+ * @example
+ * app.use(
+ *   '/_admin/contexts',
+ *   contextAdminRouter({
+ *     guard: (req) => req.get('authorization') === `Bearer ${process.env.ADMIN_TOKEN}`,
+ *     redact: ['authorization', 'password'],
+ *   })
+ * );
+ * // GET    /_admin/contexts           -> { count, contexts: [{ id, age, keys, size, ... }] }
+ * // GET    /_admin/contexts/:id       -> { id, createdAt, lastAccessedAt, entries }
+ * // DELETE /_admin/contexts/:id       -> 204, the context is disposed and removed
+ */
+export const contextAdminRouter = (options: ContextAdminOptions) => {
+  const store = options.store ?? defaultContextStore;
+  const redactKeys = new Set(
+    (options.redact ?? []).map((key) => key.toLowerCase())
+  );
+  const router = Router();
+
+  router.use(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (await options.guard(req)) return next();
+      res.status(403).json({ error: 'Forbidden' });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/', (req, res) => {
+    const now = Date.now();
+    const limit = Number(req.query.limit);
+    const entries = Array.from(store.entries());
+    const listed =
+      Number.isInteger(limit) && limit >= 0 ? entries.slice(0, limit) : entries;
+    res.json({
+      count: entries.length,
+      contexts: listed.map(([id, context]) =>
+        describeContext(id, context, now)
+      ),
+    });
+  });
+
+  router.get('/:id', (req, res) => {
+    const context = store.get(req.params.id);
+    if (!context) {
+      res.status(404).json({ error: 'Context not found' });
+      return;
+    }
+    const { createdAt, lastAccessedAt, entries } = context.snapshot();
+    res.json({
+      id: req.params.id,
+      createdAt,
+      lastAccessedAt,
+      entries: Object.fromEntries(
+        Object.entries(entries).map(([key, entry]) => [
+          key,
+          redactKeys.has(key.toLowerCase())
+            ? { ...entry, value: '[REDACTED]' }
+            : {
+                ...entry,
+                value: toDisplayValue(
+                  redactValue(decodeValue(entry.value), redactKeys)
+                ),
+              },
+        ])
+      ),
+    });
+  });
+
+  router.delete('/:id', (req, res) => {
+    const context = store.get(req.params.id);
+    if (!context) {
+      res.status(404).json({ error: 'Context not found' });
+      return;
+    }
+    context.dispose();
+    store.delete(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+};
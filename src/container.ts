@@ -0,0 +1,108 @@
+import type MyContext from './ctx';
+import {
+  AllowedValueTypesRecord,
+  InjectionToken,
+  ServiceDefinition,
+} from './types';
+
+type AnyContext = MyContext<AllowedValueTypesRecord>;
+
+/**
+ * Creates a typed key for a service registered with `services` and resolved with
+ * `ctx.inject(token)`.
+ *
+ * @example
+ * const UserRepository = createToken<UserRepository>('UserRepository');
+ */
+export const createToken = <V>(name: string): InjectionToken<V> =>
+  Object.freeze({ name });
+
+/**
+ * Holds service definitions and singleton instances. Request-scoped instances are cached
+ * on each context and released when the context is disposed; transient services are
+ * created on every `inject`. Pass a container as `services` to share singletons between
+ * several middleware instances and `runInContext`.
+ *
+ * @example
+ * const services = new ServiceContainer([
+ *   { token: Database, scope: 'singleton', factory: () => createPool() },
+ *   {
+ *     token: UnitOfWork,
+ *     factory: (ctx) => new UnitOfWork(ctx.inject(Database)),
+ *     dispose: (work) => work.rollbackIfPending(),
+ *   },
+ * ]);
+ *
+ * app.use(contextMiddleware({ services }));
+ * app.post('/orders', async (req, res) => {
+ *   const work = req.context.inject(UnitOfWork);
+ *   await work.commit();
+ * });
+ */
+export class ServiceContainer {
+  private definitions = new Map<InjectionToken<unknown>, ServiceDefinition>();
+  private singletons = new Map<InjectionToken<unknown>, unknown>();
+  private resolving: InjectionToken<unknown>[] = [];
+
+  constructor(definitions: ServiceDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Adds or replaces the definition for `definition.token`.
+   */
+  register<V>(definition: ServiceDefinition<V>) {
+    this.definitions.set(definition.token, definition as ServiceDefinition);
+    this.singletons.delete(definition.token);
+    return this;
+  }
+
+  has(token: InjectionToken<unknown>) {
+    return this.definitions.has(token);
+  }
+
+  /**
+   * Returns the instance of `token` for `context`, creating it according to its scope.
+   *
+   * @throws Error when the token is not registered or its dependencies form a cycle
+   */
+  resolve<V>(
+    token: InjectionToken<V>,
+    context: AnyContext,
+    requestInstances: Map<InjectionToken<unknown>, unknown>
+  ): V {
+    const definition = this.definitions.get(token) as
+      ServiceDefinition<V> | undefined;
+    if (!definition) {
+      throw new Error(`No service registered for "${token.name}"`);
+    }
+
+    const scope = definition.scope ?? 'request';
+    const cache =
+      scope === 'singleton'
+        ? this.singletons
+        : scope === 'request'
+          ? requestInstances
+          : undefined;
+    if (cache?.has(token)) return cache.get(token) as V;
+
+    if (this.resolving.includes(token)) {
+      const cycle = [...this.resolving, token].map(({ name }) => name);
+      throw new Error(`Circular service dependency: ${cycle.join(' -> ')}`);
+    }
+    this.resolving.push(token);
+    let instance: V;
+    try {
+      instance = definition.factory(context);
+    } finally {
+      this.resolving.pop();
+    }
+
+    cache?.set(token, instance);
+    if (scope !== 'singleton' && definition.dispose) {
+      const { dispose } = definition;
+      context.onDispose(() => dispose(instance));
+    }
+    return instance;
+  }
+}
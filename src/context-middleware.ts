@@ -1,17 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import { AsyncLocalStorage } from 'async_hooks';
 import MyContext from './ctx';
+import { AllowedValueTypesRecord, ContextMiddlewareOptions } from './types';
 import {
-  AllowedValueTypes,
-  AllowedValueTypesRecord,
-  ContextMiddlewareOptions,
-} from './types';
-import { v4 as uuidv4 } from 'uuid';
-
-const asyncLocalStorage = new AsyncLocalStorage<
-  MyContext<AllowedValueTypesRecord>
->();
-const contextStore = new Map<string, MyContext<AllowedValueTypesRecord>>();
+  asyncLocalStorage,
+  runWithContext,
+  useContext,
+  useRequestId,
+} from './context-storage';
+import { createRequestLifecycle } from './request-lifecycle';
 
 declare global {
   namespace Express {
@@ -24,8 +20,21 @@ declare global {
 /**
  * Express middleware for attaching a MyContext instance to each request.
  *
- * @param options - Configuration options for the middleware
- * @param options.contextConfig - Configuration for the MyContext instance
+ * @param options - Default values for every context, plus reserved configuration keys
+ * @param options.defaultTTL - TTL in milliseconds applied to values set without their own TTL
+ * @param options.session - Reuse a session context across requests, keyed by a header, cookie or resolver
+ * @param options.store - Where contexts are kept; defaults to a shared in-memory LRU capped at 10000 entries
+ * @param options.requestId - Honour inbound `X-Request-Id`/`traceparent` IDs, choose the generator and echo the ID
+ * @param options.trace - Parse W3C `traceparent`, `tracestate` and `baggage` into the `trace` key
+ * @param options.hooks - Hooks registered on every context, including `onCreate` and `onDispose`
+ * @param options.leakDetection - Warn about request contexts still alive after `maxAge` milliseconds
+ * @param options.extract - Read context values from request headers, query parameters and cookies
+ * @param options.sealedKeys - Initial values sealed against later writes; defaults to `['contextId']`
+ * @param options.strict - Throw `ContextSealedError` on writes to sealed keys instead of reporting it
+ * @param options.providers - Loaders for `ctx.resolve(key)`, run at most once per request
+ * @param options.services - Services for `ctx.inject(token)`, with singleton, request or transient scope
+ * @param options.tenant - Resolve a tenant per request, with its own defaults, hooks and store namespace
+ * @param options.metrics - Record context lifecycle, read and hook error metrics, e.g. with `PrometheusMetrics`
  *
  * @example
  * import express from 'express';
@@ -36,7 +45,8 @@ declare global {
  * app.use(contextMiddleware({
  *       appName: 'MyApp',
  *       version: '1.0.0',
- *       environment: process.env.NODE_ENV
+ *       environment: process.env.NODE_ENV,
+ *       defaultTTL: 3600000 // values expire after an hour unless set with their own TTL
  * }));
  *
  * // Middleware to set user info in context (e.g., after authentication)
@@ -55,11 +65,18 @@ declare global {
  *   res.send(`Welcome to ${appName} dashboard, User ${userId} (${userRole}). Last access: ${lastAccess}`);
  * });
  *
- * // Using hooks
+ * // Using hooks: declared once and registered on every context
+ * app.use(contextMiddleware({
+ *   hooks: {
+ *     beforeGet: (key) => console.log(`Accessing key: ${key}`),
+ *     onCreate: (ctx) => console.log(`Context ${ctx.get('contextId')} created`),
+ *     onDispose: (ctx) => console.log(`Context ${ctx.get('contextId')} disposed`),
+ *   }
+ * }));
+ *
+ * // Per-request hooks are still available on req.context
  * app.use((req, res, next) => {
- *   req.context.hook('beforeGet', (key) => {
- *     console.log(`Accessing key: ${key}`);
- *   });
+ *   req.context.hook('onError', (error) => console.error(error));
  *   next();
  * });
  *
@@ -70,80 +87,65 @@ declare global {
  *   res.send('Logged out');
  * });
  *
- * // The context is isolated per session, allowing for concurrent requests
+ * // The context is isolated per request, allowing for concurrent requests
  * // from different users without data interference.
  *
+ * // Session mode: values set on `req.context.session` survive across requests
+ * app.use(contextMiddleware({
+ *   session: { header: 'x-session-id', cookie: 'sid', idleTimeout: 15 * 60 * 1000 }
+ * }));
+ * app.post('/cart', (req, res) => {
+ *   req.context.session?.set('cart', req.body);
+ *   res.sendStatus(204);
+ * });
+ *
  * app.listen(3000, () => {
  *   console.log('Server running on http://localhost:3000');
  * });
  *
+ * // Request IDs: reuse the caller's X-Request-Id, otherwise generate a ULID, and echo it back
+ * app.use(contextMiddleware({
+ *   requestId: { headers: ['x-request-id'], traceparent: true, generator: 'ulid' }
+ * }));
+ *
+ * // Declarative extraction: a missing x-tenant header answers with 400 Bad Request
+ * app.use(contextMiddleware({
+ *   extract: {
+ *     tenantId: { header: 'x-tenant', required: true, parse: Number },
+ *     locale: { cookie: 'lang', default: 'en' },
+ *   }
+ * }));
+ *
+ * // Distributed tracing: continue the caller's W3C trace and propagate it downstream
+ * app.use(contextMiddleware({ trace: true }));
+ * app.get('/orders', async (req, res) => {
+ *   const stock = await tracedFetch('https://inventory.internal/stock');
+ *   res.json(await stock.json());
+ * });
+ *
  * @note The middleware automatically handles session management:
- * -  uses a default uuid.
- * - It reuses existing context if a session is still active.
- * - Each session has its own isolated context, ensuring data separation between users.
+ * - Each request gets a fresh context identified by a uuid (`contextId`), or by the
+ *   resolved request ID when `requestId` is configured.
+ * - With `session` configured, it reuses the session context while the session is still active
+ *   and issues a new session ID on the configured header/cookie when none was sent.
+ * - Session values live on `req.context.session`, apart from request-scoped values.
+ * - The request context is disposed exactly once when the response finishes, or when the
+ *   connection closes or errors first. Use `req.context.onDispose(fn)` to release resources.
+ * - Sessions are evicted after `idleTimeout` without requests or `maxLifetime` after creation.
  */
 export const contextMiddleware = (options: ContextMiddlewareOptions = {}) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const contextId = uuidv4();
-    const context = new MyContext<AllowedValueTypesRecord>(options);
-
-    contextStore.set(contextId, context);
+  const lifecycle = createRequestLifecycle(options);
 
-    // Store the contextId in the context
-    context.set('contextId', contextId);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { context, error } = lifecycle.open(req, res);
 
     asyncLocalStorage.run(context, () => {
       req.context = context;
-      next();
-    });
-
-    res.on('finish', () => {
-      asyncLocalStorage.exit(() => {
-        context.clear(contextId);
-        contextStore.delete(contextId);
-      });
+      // Missing or invalid `extract` values reach the error handlers as a 400
+      next(error);
     });
   };
 };
 
 export { MyContext };
-
-/**
- * Helper function to get the current context within the request lifecycle.
- * This function provides access to the context and its methods, including hooks.
- *
- * @returns The current MyContext instance or undefined if called outside the request lifecycle
- *
- * @example
- * import { useContext } from '@bethel-nz/express-ctx';
- *
- * function someHelperFunction() {
- *   const ctx = useContext();
- *   if (ctx) {
- *     const userId = ctx.get('userId');
- *     // Do something with userId
- *
- *     // Using hooks
- *     ctx.hook('beforeGet', (key) => {
- *       console.log(`About to get ${key}`);
- *     });
- *
- *     ctx.hook('afterSet', (key, value) => {
- *       console.log(`Set ${key} to ${value}`);
- *     });
- *
- *     ctx.hook('onClear', (key) => {
- *       console.log(`Cleared ${key} from context`);
- *     });
- *
- *     ctx.hook('onError', (error) => {
- *       console.error('An error occurred:', error);
- *     });
- *   }
- * }
- */
-export const useContext = <T extends Record<string, AllowedValueTypes>>():
-  | MyContext<T>
-  | undefined => {
-  return asyncLocalStorage.getStore() as MyContext<T> | undefined;
-};
+export { useContext, useRequestId, runWithContext };
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import MyContext from './ctx';
+import { MemoryContextStore } from './context-store';
+import { ServiceContainer } from './container';
+import { startLeakDetector } from './leak-detector';
+import { contextInstruments, observeStoreSize } from './metrics';
+import {
+  AllowedValueTypesRecord,
+  ContextConfig,
+  ContextMiddlewareConfig,
+  ContextMiddlewareOptions,
+} from './types';
+
+/**
+ * Store used by every runtime configured without its own `store`.
+ */
+export const defaultContextStore = new MemoryContextStore({
+  maxEntries: 10000,
+});
+
+const configKeys: (keyof ContextMiddlewareConfig)[] = [
+  'defaultTTL',
+  'session',
+  'store',
+  'validators',
+  'requestId',
+  'trace',
+  'hooks',
+  'leakDetection',
+  'extract',
+  'sealedKeys',
+  'strict',
+  'providers',
+  'services',
+  'tenant',
+  'metrics',
+];
+
+/**
+ * Separates the reserved configuration keys from the default context values.
+ */
+const splitOptions = (options: ContextMiddlewareOptions) => {
+  const defaults: AllowedValueTypesRecord = {};
+  const config: ContextMiddlewareConfig = {};
+  for (const [key, value] of Object.entries(options)) {
+    if ((configKeys as string[]).includes(key)) {
+      (config as AllowedValueTypesRecord)[key] = value;
+    } else {
+      defaults[key] = value;
+    }
+  }
+  return { defaults, config };
+};
+
+/**
+ * The framework-independent part of the context lifecycle: creating contexts with the
+ * configured defaults and hooks, tracking them in the store and disposing them.
+ * Shared by `contextMiddleware` and `runInContext`.
+ */
+export const createContextRuntime = (options: ContextMiddlewareOptions) => {
+  const { defaults, config } = splitOptions(options);
+  const store = config.store ?? defaultContextStore;
+  const contextConfig: ContextConfig = {
+    defaultTTL: config.defaultTTL,
+    validators: config.validators,
+    hooks: config.hooks,
+    sealedKeys: config.sealedKeys,
+    strict: config.strict,
+    providers: config.providers,
+    services:
+      config.services instanceof ServiceContainer
+        ? config.services
+        : config.services && new ServiceContainer(config.services),
+    metrics: config.metrics,
+  };
+  const instruments = config.metrics && contextInstruments(config.metrics);
+
+  if (config.leakDetection) {
+    startLeakDetector(store, config.leakDetection);
+  }
+  if (config.metrics) {
+    observeStoreSize(config.metrics, store);
+  }
+  const storeKeys = new WeakMap<MyContext<AllowedValueTypesRecord>, string>();
+
+  /**
+   * Creates a context identified by `contextId`, fires `onCreate` and adds it to the store.
+   * `contextId` may come from the caller or the client, so the store key is generated
+   * here and never collides with sessions or with other contexts given the same ID.
+   */
+  const open = (
+    contextId: string,
+    initialValues: AllowedValueTypesRecord = {},
+    extra: Pick<ContextConfig, 'session' | 'parent'> = {}
+  ) => {
+    const context = new MyContext<AllowedValueTypesRecord>(defaults, {
+      ...contextConfig,
+      ...extra,
+      initialValues: { contextId, ...initialValues },
+    });
+    const key = `request:${uuidv4()}`;
+    storeKeys.set(context, key);
+    store.set(key, context);
+    instruments?.created.inc();
+    instruments?.active.inc();
+    return context;
+  };
+
+  /**
+   * Disposes the context and removes it from the store.
+   */
+  const close = (context: MyContext<AllowedValueTypesRecord>) => {
+    context.dispose();
+    if (instruments) {
+      instruments.disposed.inc();
+      instruments.active.dec();
+      instruments.lifetime.observe((Date.now() - context.createdAt) / 1000);
+    }
+    const key = storeKeys.get(context);
+    if (key !== undefined) {
+      store.delete(key);
+    }
+  };
+
+  return { config, store, services: contextConfig.services, open, close };
+};
+
+export type ContextRuntime = ReturnType<typeof createContextRuntime>;
+
+const runtimes = new WeakMap<ContextMiddlewareOptions, ContextRuntime>();
+
+/**
+ * Returns the runtime for an options object, creating it on first use, so every
+ * entry point given the same options shares one store, hook set and leak detector.
+ */
+export const getContextRuntime = (options: ContextMiddlewareOptions) => {
+  let runtime = runtimes.get(options);
+  if (!runtime) {
+    runtime = createContextRuntime(options);
+    runtimes.set(options, runtime);
+  }
+  return runtime;
+};
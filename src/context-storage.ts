@@ -0,0 +1,97 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import MyContext from './ctx';
+import { AllowedValueTypes, AllowedValueTypesRecord } from './types';
+
+/**
+ * Holds the MyContext of the current async execution (request, job, ...).
+ */
+export const asyncLocalStorage = new AsyncLocalStorage<
+  MyContext<AllowedValueTypesRecord>
+>();
+
+/**
+ * Helper function to get the current context within the request lifecycle.
+ * This function provides access to the context and its methods, including hooks.
+ *
+ * @returns The current MyContext instance or undefined if called outside the request lifecycle
+ *
+ * @example
+ * import { useContext } from '@bethel-nz/express-ctx';
+ *
+ * function someHelperFunction() {
+ *   const ctx = useContext();
+ *   if (ctx) {
+ *     const userId = ctx.get('userId');
+ *     // Do something with userId
+ *
+ *     // Using hooks
+ *     ctx.hook('beforeGet', (key) => {
+ *       console.log(`About to get ${key}`);
+ *     });
+ *
+ *     ctx.hook('afterSet', (key, value) => {
+ *       console.log(`Set ${key} to ${value}`);
+ *     });
+ *
+ *     ctx.hook('onClear', (key) => {
+ *       console.log(`Cleared ${key} from context`);
+ *     });
+ *
+ *     ctx.hook('onError', (error) => {
+ *       console.error('An error occurred:', error);
+ *     });
+ *   }
+ * }
+ */
+export const useContext = <T extends Record<string, AllowedValueTypes>>():
+  MyContext<T> | undefined => {
+  return asyncLocalStorage.getStore() as MyContext<T> | undefined;
+};
+
+/**
+ * Returns the ID of the current request (`contextId`), or undefined outside the request lifecycle.
+ *
+ * @example
+ * logger.info({ requestId: useRequestId() }, 'charging card');
+ * await fetch(url, { headers: { 'x-request-id': useRequestId() ?? '' } });
+ */
+export const useRequestId = (): string | undefined => {
+  return asyncLocalStorage.getStore()?.get('contextId');
+};
+
+/**
+ * Runs `fn` with a child of the current context (see `MyContext.fork`) as the active
+ * context, so `useContext()` inside `fn` sees the overrides while the request's context
+ * is left untouched. Outside any context, a fresh context holding the overrides is used.
+ * The child is disposed once `fn` returns or its promise settles.
+ *
+ * @example
+ * app.post('/import', async (req, res) => {
+ *   for (const row of req.body.rows) {
+ *     await runWithContext({ rowId: row.id }, () => importRow(row));
+ *   }
+ *   res.sendStatus(204);
+ * });
+ *
+ * function importRow(row) {
+ *   const ctx = useContext();
+ *   ctx?.get('rowId'); // this row's id
+ *   ctx?.get('userId'); // read through from the request context
+ * }
+ */
+export const runWithContext = <R>(
+  overrides: AllowedValueTypesRecord,
+  fn: () => R
+): R => {
+  const parent = asyncLocalStorage.getStore();
+  const child = parent
+    ? parent.fork(overrides)
+    : new MyContext<AllowedValueTypesRecord>({}, { initialValues: overrides });
+
+  const result = asyncLocalStorage.run(child, fn);
+  if (result instanceof Promise) {
+    return result.finally(() => child.dispose()) as unknown as R;
+  }
+  child.dispose();
+  return result;
+};
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import MyContext from './ctx';
+import {
+  AllowedValueTypesRecord,
+  ContextSnapshot,
+  ContextStore,
+} from './types';
+import { isSessionKey } from './session';
+
+type StoredContext = MyContext<AllowedValueTypesRecord>;
+
+export interface MemoryContextStoreOptions {
+  /** Least recently used entries are dropped once this many are stored. */
+  maxEntries?: number;
+  onEvict?: (id: string, context: StoredContext) => void;
+}
+
+/**
+ * In-memory LRU context store. `get` and `touch` mark an entry as recently used.
+ *
+ * @example
+ * app.use(contextMiddleware({
+ *   store: new MemoryContextStore({ maxEntries: 50000 }),
+ * }));
+ */
+export class MemoryContextStore implements ContextStore {
+  private contexts = new Map<string, StoredContext>();
+  private maxEntries: number;
+  private onEvict?: (id: string, context: StoredContext) => void;
+
+  constructor(options: MemoryContextStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.onEvict = options.onEvict;
+  }
+
+  get size() {
+    return this.contexts.size;
+  }
+
+  get(id: string) {
+    const context = this.contexts.get(id);
+    if (context) this.promote(id, context);
+    return context;
+  }
+
+  set(id: string, context: StoredContext) {
+    this.promote(id, context);
+    while (this.contexts.size > this.maxEntries) {
+      const [oldestId, oldest] = this.contexts.entries().next().value as [
+        string,
+        StoredContext,
+      ];
+      this.contexts.delete(oldestId);
+      this.onEvict?.(oldestId, oldest);
+    }
+  }
+
+  delete(id: string) {
+    this.contexts.delete(id);
+  }
+
+  touch(id: string) {
+    const context = this.contexts.get(id);
+    if (context) this.promote(id, context);
+  }
+
+  entries() {
+    return this.contexts.entries();
+  }
+
+  private promote(id: string, context: StoredContext) {
+    this.contexts.delete(id);
+    this.contexts.set(id, context);
+  }
+}
+
+export interface FileContextStoreOptions extends MemoryContextStoreOptions {
+  /** JSON file the persisted contexts are written to. */
+  path: string;
+  /**
+   * Decides which entries are written to disk. By default only session
+   * contexts are persisted; request contexts stay in memory.
+   */
+  persist?: (id: string) => boolean;
+  /**
+   * Milliseconds to wait after a persisted entry changes before rewriting the file,
+   * so changes made by many requests are written together. Defaults to 1000.
+   */
+  flushDelay?: number;
+}
+
+/**
+ * Context store that keeps persisted contexts in a JSON file so they survive a restart.
+ * Entries that are not persisted are cached in memory with the same LRU cap as
+ * `MemoryContextStore`; persisted entries are kept until they are deleted, so the cap
+ * never drops them from disk. Changes are written atomically, at most once every
+ * `flushDelay` milliseconds; call `flush()` on shutdown to write pending changes.
+ * Contexts loaded from the file are kept as snapshots until `takeSnapshot` hands them
+ * to the middleware, which rebuilds each session with its own defaults and hooks.
+ *
+ * @example
+ * const store = new FileContextStore({ path: './data/contexts.json', maxEntries: 10000 });
+ * app.use(contextMiddleware({
+ *   session: { cookie: 'sid', idleTimeout: 30 * 60 * 1000 },
+ *   store,
+ * }));
+ * process.on('SIGTERM', () => store.flush());
+ */
+export class FileContextStore implements ContextStore {
+  private cache: MemoryContextStore;
+  private persisted = new Map<string, StoredContext>();
+  private loaded = new Map<string, ContextSnapshot>();
+  private filePath: string;
+  private persist: (id: string) => boolean;
+  private flushDelay: number;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(options: FileContextStoreOptions) {
+    this.filePath = path.resolve(options.path);
+    this.persist = options.persist ?? isSessionKey;
+    this.flushDelay = options.flushDelay ?? 1000;
+    this.cache = new MemoryContextStore({
+      maxEntries: options.maxEntries,
+      onEvict: options.onEvict,
+    });
+    this.load();
+  }
+
+  get size() {
+    return this.cache.size + this.persisted.size + this.loaded.size;
+  }
+
+  get(id: string) {
+    return this.persisted.get(id) ?? this.cache.get(id);
+  }
+
+  set(id: string, context: StoredContext) {
+    this.loaded.delete(id);
+    if (this.persist(id)) {
+      this.persisted.set(id, context);
+      this.scheduleFlush();
+    } else {
+      this.cache.set(id, context);
+    }
+  }
+
+  delete(id: string) {
+    if (this.persisted.delete(id) || this.loaded.delete(id)) {
+      this.scheduleFlush();
+    } else {
+      this.cache.delete(id);
+    }
+  }
+
+  touch(id: string) {
+    this.cache.touch(id);
+  }
+
+  *entries(): IterableIterator<[string, StoredContext]> {
+    yield* this.persisted.entries();
+    yield* this.cache.entries();
+  }
+
+  takeSnapshot(id: string) {
+    const snapshot = this.loaded.get(id);
+    this.loaded.delete(id);
+    return snapshot;
+  }
+
+  snapshots() {
+    return this.loaded.entries();
+  }
+
+  /**
+   * Writes every persisted entry to disk now, including changes waiting for `flushDelay`.
+   */
+  flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const data: Record<string, ContextSnapshot> = Object.fromEntries(
+      this.loaded
+    );
+    for (const [id, context] of this.persisted) {
+      data[id] = context.toJSON();
+    }
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      try {
+        this.flush();
+      } catch (error) {
+        console.error('[express-ctx] Failed to write contexts file:', error);
+      }
+    }, this.flushDelay);
+    this.flushTimer.unref();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<
+      string,
+      ContextSnapshot
+    >;
+    for (const [id, snapshot] of Object.entries(data)) {
+      this.loaded.set(id, snapshot);
+    }
+  }
+}
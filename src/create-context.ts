@@ -0,0 +1,69 @@
+import { Request } from 'express';
+import MyContext from './ctx';
+import { contextMiddleware, useContext } from './context-middleware';
+import {
+  AllowedValueTypes,
+  ContextMiddlewareConfig,
+  ContextMiddlewareOptions,
+  ContextProviders,
+  ContextValidators,
+  ExtractRule,
+} from './types';
+
+export type CreateContextOptions<T extends Record<string, AllowedValueTypes>> =
+  Partial<T> &
+    Omit<ContextMiddlewareConfig, 'validators' | 'extract' | 'providers'> & {
+      validators?: ContextValidators<T>;
+      /** Loaders for `ctx.resolve(key)`; each must produce the key's type. */
+      providers?: ContextProviders<T>;
+      /** Request values extracted into schema keys; `parse` must produce the key's type. */
+      extract?: { [K in keyof T]?: ExtractRule<T[K]> };
+    };
+
+/**
+ * Creates a middleware and accessors typed against `Schema`, with optional
+ * runtime validators that reject bad values as they are written.
+ *
+ * @param options - Default values, validators and any `contextMiddleware` configuration
+ *
+ * @example
+ * import { z } from 'zod';
+ * import { createContext } from '@bethel-nz/express-ctx';
+ *
+ * type AppContext = { userId: string; role: 'admin' | 'user'; retries: number };
+ *
+ * const appContext = createContext<AppContext>({
+ *   retries: 0,
+ *   extract: {
+ *     userId: { header: 'x-user-id', required: true },
+ *     retries: { query: 'retries', parse: Number }, // must parse to a number
+ *   },
+ *   validators: {
+ *     userId: (value) => typeof value === 'string' && value.length > 0,
+ *     role: z.enum(['admin', 'user']),
+ *   },
+ * });
+ *
+ * app.use(appContext.middleware);
+ *
+ * app.get('/me', (req, res) => {
+ *   const ctx = appContext.fromRequest(req);
+ *   ctx.set('role', 'owner'); // type error, and rejected at runtime through onError
+ *   res.json({ userId: ctx.get('userId') }); // string | undefined
+ * });
+ *
+ * function audit() {
+ *   const role = appContext.useContext()?.get('role'); // 'admin' | 'user' | undefined
+ * }
+ */
+export const createContext = <T extends Record<string, AllowedValueTypes>>(
+  options: CreateContextOptions<T> = {} as CreateContextOptions<T>
+) => {
+  const middleware = contextMiddleware(options as ContextMiddlewareOptions);
+
+  return {
+    middleware,
+    useContext: () => useContext<T>(),
+    fromRequest: (req: Request) => req.context as unknown as MyContext<T>,
+  };
+};
@@ -1,100 +1,855 @@
-import { AllowedValueTypes, ContextMiddlewareOptions } from './types';
+import {
+  AllowedValueTypes,
+  AllowedValueTypesRecord,
+  ContextConfig,
+  ContextEntry,
+  ContextHooks,
+  ContextMiddlewareOptions,
+  ContextProviders,
+  ContextSnapshot,
+  ContextValidators,
+  HookEvent,
+  HookOptions,
+  HookResult,
+  InjectionToken,
+} from './types';
+import { ContextSealedError, ContextValidationError } from './errors';
+import { decodeValue, encodeValue } from './serializer';
+import type { ServiceContainer } from './container';
+import { contextInstruments, ContextInstruments } from './metrics';
+
+type HookHandler = (...args: never[]) => unknown;
+
+type ReadResult = 'hit' | 'default' | 'miss';
+
+type Watcher = (oldValue: unknown, newValue: unknown) => void;
+
+interface ComputedValue {
+  deps: string[];
+  fn: (...values: AllowedValueTypes[]) => unknown;
+  cached?: { inputs: unknown[]; value: unknown };
+}
+
+interface RegisteredHook {
+  fn: HookHandler;
+  priority: number;
+  order: number;
+}
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+const isPromise = (value: unknown): value is Promise<unknown> =>
+  typeof (value as Promise<unknown> | undefined)?.then === 'function';
+
+const SNAPSHOT_VERSION = 1;
 
 class MyContext<T extends Record<string, AllowedValueTypes>> {
-  private storage: Map<string, { value: AllowedValueTypes }>;
-  private hooks: {
-    beforeGet: ((key: string) => void)[];
-    afterSet: ((key: string, value: AllowedValueTypes) => void)[];
-    onClear: ((key?: string) => void)[];
-    onSet: ((key: string, value: AllowedValueTypes) => void)[];
-    onError: ((error: Error) => void)[];
-  };
+  private storage: Map<string, ContextEntry>;
+  private hooks: Record<HookEvent, RegisteredHook[]>;
+  private hookOrder = 0;
   private defaultValues: Partial<T>;
+  private defaultTTL?: number;
+  private validators: ContextValidators<AllowedValueTypesRecord>;
+  private sealed = new Set<string>();
+  private frozen = false;
+  private strict: boolean;
+  private watchers = new Map<string, Set<Watcher>>();
+  private computedValues = new Map<string, ComputedValue>();
+  private providers: ContextProviders<AllowedValueTypesRecord>;
+  private pendingProviders = new Map<string, Promise<void>>();
+  /** Keys whose provider returned `undefined`, with when that result expires. */
+  private emptyResolutions = new Map<string, number | undefined>();
+  private services?: ServiceContainer;
+  private serviceInstances = new Map<InjectionToken<unknown>, unknown>();
+  private instruments?: ContextInstruments;
+  readonly session?: MyContext<AllowedValueTypesRecord>;
+  readonly parent?: MyContext<AllowedValueTypesRecord>;
+  readonly createdAt: number;
+  lastAccessedAt: number;
+  private disposed = false;
 
-  constructor(options: ContextMiddlewareOptions = {}) {
+  constructor(
+    options: ContextMiddlewareOptions = {},
+    config: ContextConfig = {}
+  ) {
     this.storage = new Map();
     this.hooks = {
+      beforeSet: [],
       beforeGet: [],
       afterSet: [],
       onClear: [],
       onSet: [],
       onError: [],
+      onExpire: [],
+      onCreate: [],
+      onDispose: [],
     };
     this.defaultValues = options as Partial<T>;
+    this.defaultTTL = config.defaultTTL;
+    this.session = config.session;
+    this.parent = config.parent;
+    this.validators = config.validators ?? {};
+    this.strict = config.strict ?? false;
+    this.providers = config.providers ?? {};
+    this.services = config.services;
+    this.instruments = config.metrics && contextInstruments(config.metrics);
+    this.createdAt = Date.now();
+    this.lastAccessedAt = this.createdAt;
+
+    for (const [event, handlers] of Object.entries(config.hooks ?? {})) {
+      for (const handler of ([] as HookHandler[]).concat(handlers)) {
+        this.hook(event as HookEvent, handler as ContextHooks[HookEvent]);
+      }
+    }
+    for (const [key, value] of Object.entries(config.initialValues ?? {})) {
+      this.setInitial(key, value);
+    }
+    this.sealPresent(config.sealedKeys);
+    this.triggerHooks('onCreate', this);
+  }
+
+  get isDisposed() {
+    return this.disposed;
+  }
+
+  /**
+   * Tears the context down: fires the `onDispose` hooks, then drops every stored value.
+   * Only the first call has any effect.
+   */
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.triggerHooks('onDispose', this);
+    this.storage.clear();
+  }
+
+  /**
+   * Creates a child context. Reads fall through to this context when a key is not
+   * set on the child; writes and clears stay local to the child. The child shares
+   * this context's session, validators, default TTL and strict mode, but not its hooks.
+   * Keys sealed on this context are sealed on the child too: overriding one raises
+   * `ContextSealedError` through this context's `onError` hooks (thrown in strict mode)
+   * and the child reads the sealed value instead.
+   *
+   * @example
+   * for (const item of batch) {
+   *   const itemCtx = req.context.fork({ itemId: item.id });
+   *   process(item, itemCtx); // itemCtx.get('userId') still reads the request's value
+   * }
+   */
+  fork<C extends Record<string, AllowedValueTypes> = T>(
+    overrides: Partial<C> = {}
+  ) {
+    const initialValues: AllowedValueTypesRecord = {};
+    for (const [key, value] of Object.entries(overrides)) {
+      if (this.isSealed(key)) {
+        this.handleWriteError(new ContextSealedError(key));
+      } else {
+        initialValues[key] = value;
+      }
+    }
+    return new MyContext<C>(
+      {},
+      {
+        defaultTTL: this.defaultTTL,
+        validators: this.validators,
+        strict: this.strict,
+        session: this.session,
+        parent: this as unknown as MyContext<AllowedValueTypesRecord>,
+        initialValues,
+      }
+    );
+  }
+
+  /**
+   * Passes an error raised outside the context (e.g. by a route) to the `onError` hooks.
+   */
+  reportError(error: unknown) {
+    this.triggerHooks('onError', toError(error));
+  }
+
+  /**
+   * Registers a callback to release a resource (DB transaction, file handle, ...)
+   * when the context is disposed. Returns a function that unregisters it.
+   *
+   * @example
+   * const trx = await db.transaction();
+   * req.context.onDispose(() => trx.rollbackIfPending());
+   */
+  onDispose(fn: () => HookResult) {
+    return this.hook('onDispose', () => fn());
+  }
+
+  /**
+   * Returns the service registered for `token` under `services`. Request-scoped
+   * instances are created once per context and shared with its forks; their `dispose`
+   * callbacks run when the context is disposed.
+   *
+   * @throws Error when no service is registered for `token`, or on circular dependencies
+   *
+   * @example
+   * const repo = useContext()?.inject(UserRepository);
+   */
+  inject<V>(token: InjectionToken<V>): V {
+    if (this.services?.has(token)) {
+      return this.services.resolve(
+        token,
+        this as unknown as MyContext<AllowedValueTypesRecord>,
+        this.serviceInstances
+      );
+    }
+    if (this.parent) return this.parent.inject(token);
+    throw new Error(`No service registered for "${token.name}"`);
   }
 
-  hook<E extends keyof typeof this.hooks>(
+  /**
+   * Marks the context as used, pushing back idle-based eviction.
+   */
+  touch() {
+    this.lastAccessedAt = Date.now();
+  }
+
+  /**
+   * Registers a handler for `event` and returns a function that unregisters it.
+   * Handlers run by descending `priority`, then in registration order.
+   */
+  hook<E extends HookEvent>(
     event: E,
-    fn: (...args: Parameters<(typeof this.hooks)[E][number]>) => void
+    fn: ContextHooks[E],
+    options: HookOptions = {}
   ) {
-    //eslint-disable-next-line
-    this.hooks[event].push(fn as any);
+    const entry: RegisteredHook = {
+      fn: fn as HookHandler,
+      priority: options.priority ?? 0,
+      order: this.hookOrder++,
+    };
+    const handlers = this.hooks[event];
+    handlers.push(entry);
+    handlers.sort((a, b) => b.priority - a.priority || a.order - b.order);
+
+    return () => {
+      const index = handlers.indexOf(entry);
+      if (index !== -1) handlers.splice(index, 1);
+    };
+  }
+
+  private handlersFor<E extends HookEvent>(event: E) {
+    // Copy so handlers can unsubscribe while the event is running
+    return this.hooks[event].map(
+      ({ fn }) =>
+        fn as unknown as (
+          ...args: Parameters<ContextHooks[E]>
+        ) => ReturnType<ContextHooks[E]>
+    );
+  }
+
+  private reportHookError(event: HookEvent, error: unknown) {
+    this.instruments?.hookErrors.inc({ event });
+    console.error(`Error in ${event} hook:`, error);
+    if (event !== 'onError') {
+      this.triggerHooks('onError', toError(error));
+    }
   }
 
-  private triggerHooks<E extends keyof typeof this.hooks>(
+  private triggerHooks<E extends HookEvent>(
     event: E,
-    ...args: Parameters<(typeof this.hooks)[E][number]>
+    ...args: Parameters<ContextHooks[E]>
   ) {
-    if (this.hooks[event]) {
-      for (const hook of this.hooks[event]) {
-        try {
-          //eslint-disable-next-line
-          (hook as (...args: any[]) => void)(...args);
-        } catch (error) {
-          console.error(`Error in ${event} hook:`, error);
-          if (event !== 'onError') {
-            this.triggerHooks(
-              'onError',
-              error instanceof Error ? error : new Error(String(error))
-            );
-          }
+    for (const hook of this.handlersFor(event)) {
+      try {
+        const result = hook(...args);
+        if (isPromise(result)) {
+          result.catch((error: unknown) => this.reportHookError(event, error));
+        }
+      } catch (error) {
+        this.reportHookError(event, error);
+      }
+    }
+  }
+
+  private async triggerHooksAsync<E extends HookEvent>(
+    event: E,
+    ...args: Parameters<ContextHooks[E]>
+  ) {
+    for (const hook of this.handlersFor(event)) {
+      try {
+        await hook(...args);
+      } catch (error) {
+        this.reportHookError(event, error);
+      }
+    }
+  }
+
+  /**
+   * Passes the value through the `beforeSet` pipeline. Throws when a handler rejects it.
+   */
+  private runBeforeSet(key: string, value: AllowedValueTypes) {
+    let next = value;
+    for (const hook of this.handlersFor('beforeSet')) {
+      const result = hook(key, next);
+      if (isPromise(result)) {
+        result.catch(() => undefined);
+        throw new Error(
+          `Async beforeSet hook for "${key}" requires setAsync()`
+        );
+      }
+      if (result !== undefined) next = result;
+    }
+    return next;
+  }
+
+  private async runBeforeSetAsync(key: string, value: AllowedValueTypes) {
+    let next = value;
+    for (const hook of this.handlersFor('beforeSet')) {
+      const result = await hook(key, next);
+      if (result !== undefined) next = result;
+    }
+    return next;
+  }
+
+  /**
+   * Runs the `beforeGet` pipeline and returns the first value a handler supplies.
+   */
+  private runBeforeGet(key: string) {
+    for (const hook of this.handlersFor('beforeGet')) {
+      try {
+        const result = hook(key);
+        if (isPromise(result)) {
+          result.catch(() => undefined);
+          throw new Error(
+            `Async beforeGet hook for "${key}" requires getAsync()`
+          );
         }
+        if (result !== undefined) return result;
+      } catch (error) {
+        this.reportHookError('beforeGet', error);
+      }
+    }
+    return undefined;
+  }
+
+  private async runBeforeGetAsync(key: string) {
+    for (const hook of this.handlersFor('beforeGet')) {
+      try {
+        const result = await hook(key);
+        if (result !== undefined) return result;
+      } catch (error) {
+        this.reportHookError('beforeGet', error);
       }
     }
+    return undefined;
+  }
+
+  private store(key: string, value: AllowedValueTypes, ttl?: number) {
+    const validated = this.validate(key, value);
+    const previous = this.watchedValues([key]);
+    this.emptyResolutions.delete(key);
+    this.storage.set(key, {
+      value: validated,
+      expiresAt: this.expiresAt(ttl),
+    });
+    this.notifyChanges(previous);
+    return validated;
+  }
+
+  private expiresAt(ttl = this.defaultTTL) {
+    return ttl !== undefined && ttl > 0 ? Date.now() + ttl : undefined;
+  }
+
+  /**
+   * Writes an initial value. These are written while the context is created, so they
+   * skip the `beforeSet` pipeline, whose handlers may be asynchronous; validators
+   * and the `afterSet`/`onSet` hooks still run.
+   */
+  private setInitial(key: string, value: AllowedValueTypes) {
+    try {
+      if (value === undefined) return;
+      const stored = this.store(key, value);
+      this.triggerHooks('afterSet', key, stored);
+      this.triggerHooks('onSet', key, stored);
+    } catch (error) {
+      this.handleWriteError(error);
+    }
   }
 
-  set<K extends keyof T>(key: K, value: T[K]) {
+  /**
+   * Stores a value under `key`. When `ttl` (milliseconds) is given, or the
+   * context has a `defaultTTL`, the value is evicted on the first read after it expires.
+   * The value passes through the `beforeSet` hooks first; a rejected value is not stored.
+   */
+  set<K extends keyof T>(key: K, value: T[K], ttl?: number) {
     try {
       if (value === undefined) return;
       const stringKey = String(key);
-      this.storage.set(stringKey, { value: value as AllowedValueTypes });
-      this.triggerHooks('afterSet', stringKey, value as AllowedValueTypes);
-      this.triggerHooks('onSet', stringKey, value as AllowedValueTypes);
+      this.assertSettable(stringKey);
+      const stored = this.store(
+        stringKey,
+        this.runBeforeSet(stringKey, value),
+        ttl
+      );
+      this.triggerHooks('afterSet', stringKey, stored);
+      this.triggerHooks('onSet', stringKey, stored);
     } catch (error) {
-      this.triggerHooks(
-        'onError',
-        error instanceof Error ? error : new Error(String(error))
+      this.handleWriteError(error);
+    }
+  }
+
+  /**
+   * Like `set`, but awaits asynchronous hooks in order.
+   */
+  async setAsync<K extends keyof T>(key: K, value: T[K], ttl?: number) {
+    try {
+      if (value === undefined) return;
+      const stringKey = String(key);
+      this.assertSettable(stringKey);
+      const stored = this.store(
+        stringKey,
+        await this.runBeforeSetAsync(stringKey, value),
+        ttl
       );
+      await this.triggerHooksAsync('afterSet', stringKey, stored);
+      await this.triggerHooksAsync('onSet', stringKey, stored);
+    } catch (error) {
+      if (this.strict && error instanceof ContextSealedError) throw error;
+      await this.triggerHooksAsync('onError', toError(error));
+    }
+  }
+
+  /**
+   * Stores `value` and seals `key`, so later writes and clears are rejected.
+   *
+   * @example
+   * req.context.setReadonly('userId', session.userId);
+   * req.context.set('userId', 'someone-else'); // ContextSealedError through onError
+   */
+  setReadonly<K extends keyof T>(key: K, value: T[K], ttl?: number) {
+    const stringKey = String(key);
+    if (this.sealed.has(stringKey)) {
+      this.handleWriteError(new ContextSealedError(stringKey));
+      return;
+    }
+    this.set(key, value, ttl);
+    if (this.storage.has(stringKey)) this.sealed.add(stringKey);
+  }
+
+  /**
+   * Seals keys so writes and clears of them raise `ContextSealedError`: reported through
+   * `onError`, or thrown in strict mode. Sealed keys are kept by `clear('*')`.
+   */
+  seal(...keys: (keyof T)[]) {
+    for (const key of keys) this.sealed.add(String(key));
+  }
+
+  /**
+   * Makes the whole context read-only: every `set` and `clear` raises `ContextSealedError`.
+   * Values can still expire, and `dispose` still drops them.
+   */
+  freeze() {
+    this.frozen = true;
+  }
+
+  get isFrozen() {
+    return this.frozen;
+  }
+
+  isSealed(key: keyof T): boolean {
+    return (
+      this.sealed.has(String(key)) ||
+      (this.parent?.isSealed(String(key)) ?? false)
+    );
+  }
+
+  private assertWritable(key?: string) {
+    if (this.frozen) throw new ContextSealedError(key, true);
+    if (key !== undefined && this.isSealed(key)) {
+      throw new ContextSealedError(key);
+    }
+  }
+
+  private assertSettable(key: string) {
+    this.assertWritable(key);
+    if (this.computedValues.has(key)) {
+      throw new Error(`Context key "${key}" is computed and cannot be set`);
+    }
+  }
+
+  private handleWriteError(error: unknown) {
+    if (this.strict && error instanceof ContextSealedError) throw error;
+    this.triggerHooks('onError', toError(error));
+  }
+
+  private sealPresent(keys: string[] = ['contextId']) {
+    for (const key of keys) {
+      if (this.storage.has(key)) this.sealed.add(key);
     }
   }
 
+  private validate(key: string, value: unknown): AllowedValueTypes {
+    const validator = this.validators[key];
+    if (!validator) return value;
+    let result: unknown;
+    try {
+      result =
+        typeof validator === 'function'
+          ? validator(value)
+          : validator.parse(value);
+    } catch (error) {
+      throw new ContextValidationError(key, error);
+    }
+    if (typeof validator === 'function') {
+      if (result === false) throw new ContextValidationError(key);
+      return value;
+    }
+    return result;
+  }
+
   get<K extends keyof T>(key: K): T[K] | undefined {
     try {
-      this.triggerHooks('beforeGet', String(key));
-      const item = this.storage.get(String(key));
-      if (item) {
-        return item.value as T[K];
-      }
-      if (key in this.defaultValues) {
-        return this.defaultValues[key];
+      const supplied = this.runBeforeGet(String(key));
+      if (supplied !== undefined) {
+        this.instruments?.gets.inc({ result: 'hit' });
+        return supplied as T[K];
       }
+      const [value, result] = this.lookup(key);
+      this.instruments?.gets.inc({ result });
+      return value;
+    } catch (error) {
+      this.triggerHooks('onError', toError(error));
       return undefined;
+    }
+  }
+
+  /**
+   * Like `get`, but awaits asynchronous `beforeGet` hooks in order.
+   */
+  async getAsync<K extends keyof T>(key: K): Promise<T[K] | undefined> {
+    try {
+      const supplied = await this.runBeforeGetAsync(String(key));
+      if (supplied !== undefined) {
+        return supplied as T[K];
+      }
+      return this.read(key);
     } catch (error) {
-      this.triggerHooks(
-        'onError',
-        error instanceof Error ? error : new Error(String(error))
+      await this.triggerHooksAsync('onError', toError(error));
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the value of `key`, loading it with the key's provider first when it is not
+   * stored. A provider runs at most once while its result is kept, `undefined` included:
+   * concurrent callers share one pending load, and it runs again only after the value is
+   * cleared or expires. Provider failures are reported through `onError` and resolve to
+   * `undefined`; sealed-key errors are thrown in strict mode.
+   * Keys without a provider here are resolved by the parent context, if any.
+   *
+   * @example
+   * app.use(contextMiddleware({
+   *   providers: { user: (ctx) => db.users.find(ctx.get('userId')) },
+   * }));
+   *
+   * const [user, sameUser] = await Promise.all([ctx.resolve('user'), ctx.resolve('user')]);
+   * // one query
+   */
+  async resolve<K extends keyof T>(key: K): Promise<T[K] | undefined> {
+    const stringKey = String(key);
+    const provider = this.providers[stringKey];
+    if (this.getLiveItem(stringKey)) {
+      return this.get(key);
+    }
+    if (!provider) {
+      return this.parent
+        ? ((await this.parent.resolve(stringKey)) as T[K] | undefined)
+        : this.get(key);
+    }
+    if (this.hasEmptyResolution(stringKey)) {
+      return this.get(key);
+    }
+
+    let pending = this.pendingProviders.get(stringKey);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const value = await provider(
+            this as unknown as MyContext<AllowedValueTypesRecord>
+          );
+          if (value === undefined) {
+            this.emptyResolutions.set(stringKey, this.expiresAt());
+          } else {
+            await this.setAsync(key, value as T[K]);
+          }
+        } catch (error) {
+          if (this.strict && error instanceof ContextSealedError) throw error;
+          await this.triggerHooksAsync('onError', toError(error));
+        } finally {
+          this.pendingProviders.delete(stringKey);
+        }
+      })();
+      this.pendingProviders.set(stringKey, pending);
+    }
+    await pending;
+    return this.get(key);
+  }
+
+  private hasEmptyResolution(key: string) {
+    if (!this.emptyResolutions.has(key)) return false;
+    const expiresAt = this.emptyResolutions.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.emptyResolutions.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  private read<K extends keyof T>(key: K): T[K] | undefined {
+    return this.lookup(key)[0];
+  }
+
+  /**
+   * Reads a value and tells whether it was stored (or computed), a default, or missing.
+   */
+  private lookup<K extends keyof T>(key: K): [T[K] | undefined, ReadResult] {
+    const computed = this.computedValues.get(String(key));
+    if (computed) {
+      return [this.readComputed(computed) as T[K], 'hit'];
+    }
+    const item = this.getLiveItem(String(key));
+    if (item) {
+      return [item.value as T[K], 'hit'];
+    }
+    if (this.parent) {
+      const value = this.parent.get(String(key)) as T[K] | undefined;
+      return [value, value === undefined ? 'miss' : 'hit'];
+    }
+    if (key in this.defaultValues) {
+      return [this.defaultValues[key], 'default'];
+    }
+    return [undefined, 'miss'];
+  }
+
+  private getLiveItem(key: string) {
+    const item = this.storage.get(key);
+    if (item?.expiresAt !== undefined && item.expiresAt <= Date.now()) {
+      this.storage.delete(key);
+      this.triggerHooks('onExpire', key, item.value);
+      // Read before expiry, a computed key last returned its cached value
+      this.notifyChanges(
+        this.affectedWatchedKeys([key]).map(
+          (k) =>
+            [
+              k,
+              k === key
+                ? item.value
+                : this.computedValues.get(k)?.cached?.value,
+            ] as const
+        )
       );
       return undefined;
     }
+    return item;
+  }
+
+  private readComputed(computed: ComputedValue) {
+    const inputs = computed.deps.map((dep) => this.read(dep));
+    const { cached } = computed;
+    if (
+      !cached ||
+      inputs.some((input, index) => !Object.is(input, cached.inputs[index]))
+    ) {
+      computed.cached = { inputs, value: computed.fn(...inputs) };
+    }
+    return computed.cached?.value;
+  }
+
+  /**
+   * Calls `callback` with the old and new value whenever `key` changes through `set`,
+   * `clear` or expiry. The new value is what `get` returns afterwards, so a cleared key
+   * reports its default or parent value. A computed key reports the changes caused by
+   * its dependencies. Returns a function that stops watching.
+   *
+   * @example
+   * req.context.watch('userRole', (from, to) => audit.log({ from, to }));
+   */
+  watch<K extends keyof T>(
+    key: K,
+    callback: (oldValue: T[K] | undefined, newValue: T[K] | undefined) => void
+  ) {
+    const stringKey = String(key);
+    let callbacks = this.watchers.get(stringKey);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.watchers.set(stringKey, callbacks);
+    }
+    callbacks.add(callback as Watcher);
+    return () => {
+      callbacks?.delete(callback as Watcher);
+    };
+  }
+
+  /**
+   * Defines `key` as derived from `deps`. `fn` receives the dependency values in order
+   * and runs lazily on `get`, again only after a dependency value has changed or `key`
+   * has been cleared. Computed keys cannot be set.
+   *
+   * @example
+   * req.context.computed('isAdmin', ['userRole'], (role) => role === 'admin');
+   * req.context.get('isAdmin'); // recomputed only when userRole changes
+   */
+  computed<K extends keyof T>(
+    key: K,
+    deps: (keyof T)[],
+    fn: (...values: AllowedValueTypes[]) => T[K]
+  ) {
+    this.computedValues.set(String(key), { deps: deps.map(String), fn });
+  }
+
+  private isWatched(key: string) {
+    return (this.watchers.get(key)?.size ?? 0) > 0;
+  }
+
+  /**
+   * The watched keys whose value can change with `keys`: the keys themselves and the
+   * computed keys derived from them, directly or through other computed keys.
+   */
+  private affectedWatchedKeys(keys: string[]) {
+    if (this.watchers.size === 0) return [];
+    const affected = new Set<string>();
+    const visit = (key: string) => {
+      if (affected.has(key)) return;
+      affected.add(key);
+      for (const [computedKey, computed] of this.computedValues) {
+        if (computed.deps.includes(key)) visit(computedKey);
+      }
+    };
+    keys.forEach(visit);
+    return Array.from(affected).filter((key) => this.isWatched(key));
+  }
+
+  /**
+   * Current values of the watched keys affected by changing `keys`, for `notifyChanges`.
+   */
+  private watchedValues(keys: string[]) {
+    return this.affectedWatchedKeys(keys).map(
+      (k) => [k, this.read(k)] as const
+    );
+  }
+
+  private notifyChanges(previous: (readonly [string, unknown])[]) {
+    for (const [key, oldValue] of previous) {
+      this.notifyWatchers(key, oldValue, this.read(key));
+    }
+  }
+
+  private notifyWatchers(key: string, oldValue: unknown, newValue: unknown) {
+    if (Object.is(oldValue, newValue)) return;
+    for (const callback of Array.from(this.watchers.get(key) ?? [])) {
+      try {
+        callback(oldValue, newValue);
+      } catch (error) {
+        this.triggerHooks('onError', toError(error));
+      }
+    }
   }
 
+  /**
+   * Removes `key`, or every key except sealed ones with `'*'`. Clearing a computed key
+   * drops its cached value. Clearing a sealed key, or anything on a frozen context,
+   * raises `ContextSealedError`.
+   */
   clear(key: keyof T | '*') {
+    try {
+      this.assertWritable(key === '*' ? undefined : String(key));
+    } catch (error) {
+      this.handleWriteError(error);
+      return;
+    }
     this.triggerHooks('onClear');
+    const keys =
+      key === '*'
+        ? Array.from(this.storage.keys()).filter((k) => !this.sealed.has(k))
+        : [String(key)];
+    const previous = this.watchedValues(keys);
+
     if (key === '*') {
-      this.storage.clear();
+      keys.forEach((k) => this.storage.delete(k));
+      this.emptyResolutions.clear();
+      this.computedValues.forEach((computed) => (computed.cached = undefined));
     } else {
       this.clearKey(String(key));
+      this.emptyResolutions.delete(String(key));
+      const computed = this.computedValues.get(String(key));
+      if (computed) computed.cached = undefined;
+    }
+
+    this.notifyChanges(previous);
+  }
+
+  /**
+   * Returns a JSON-safe copy of the live (unexpired) stored values, to persist the context
+   * or hand it to a worker or queue job. `Date`, `Map`, `Set`, `BigInt` and nested values
+   * round-trip through `MyContext.fromSnapshot`. Default values and the session are not
+   * included; values read through from a parent context are included with `inherited`.
+   *
+   * @example
+   * queue.add('export', { context: req.context.snapshot() });
+   * // in the worker
+   * const context = MyContext.fromSnapshot(job.data.context);
+   */
+  snapshot(options: { inherited?: boolean } = {}): ContextSnapshot {
+    const entries: Record<string, ContextEntry> =
+      options.inherited && this.parent
+        ? this.parent.snapshot(options).entries
+        : {};
+    for (const key of Array.from(this.storage.keys())) {
+      const item = this.getLiveItem(key);
+      if (item) {
+        entries[key] = {
+          ...item,
+          value: encodeValue(item.value) as AllowedValueTypes,
+        };
+      }
+    }
+    return {
+      version: SNAPSHOT_VERSION,
+      createdAt: this.createdAt,
+      lastAccessedAt: this.lastAccessedAt,
+      entries,
+    };
+  }
+
+  /**
+   * Same as `snapshot()`, so `JSON.stringify(ctx)` produces a restorable string.
+   */
+  toJSON(): ContextSnapshot {
+    return this.snapshot();
+  }
+
+  /**
+   * Rebuilds a context from the output of `snapshot()`, or from its `JSON.stringify` text.
+   * Values are restored without running validators or hooks; `options` and `config`
+   * supply default values, hooks and validators for later use.
+   */
+  static fromSnapshot<T extends Record<string, AllowedValueTypes>>(
+    snapshot: ContextSnapshot | string,
+    options: ContextMiddlewareOptions = {},
+    config: ContextConfig = {}
+  ) {
+    const data =
+      typeof snapshot === 'string'
+        ? (JSON.parse(snapshot) as ContextSnapshot)
+        : snapshot;
+    const context = new MyContext<T>(options, config);
+    (context as { createdAt: number }).createdAt = data.createdAt;
+    context.lastAccessedAt = data.lastAccessedAt;
+    for (const [key, entry] of Object.entries(data.entries)) {
+      context.storage.set(key, {
+        ...entry,
+        value: decodeValue(entry.value) as AllowedValueTypes,
+      });
     }
+    context.sealPresent(config.sealedKeys);
+    return context;
   }
 
   private clearKey(key: string) {
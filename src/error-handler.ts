@@ -0,0 +1,101 @@
+import { STATUS_CODES } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { useContext } from './context-storage';
+import { AllowedValueTypesRecord, ContextErrorHandlerOptions } from './types';
+
+/**
+ * An error enriched by `contextErrorHandler` with the request's context.
+ */
+export type ContextualError = Error & {
+  status?: number;
+  statusCode?: number;
+  expose?: boolean;
+  contextId?: string;
+  context?: AllowedValueTypesRecord;
+};
+
+const resolveStatus = (error: ContextualError) => {
+  const status = error.status ?? error.statusCode;
+  return typeof status === 'number' && status >= 400 && status < 600
+    ? status
+    : 500;
+};
+
+/**
+ * Express error handler that attaches the request's `contextId` and selected context
+ * keys to the error, forwards it to the context's `onError` hooks and renders an
+ * RFC 7807 `application/problem+json` response that includes the request ID.
+ * Register it after your routes; if headers were already sent it defers to Express.
+ *
+ * @param options - Context keys to include, the problem `type` and whether 5xx details are shown
+ *
+ * @example
+ * import express from 'express';
+ * import { contextMiddleware, contextErrorHandler } from '@bethel-nz/express-ctx';
+ *
+ * const app = express();
+ * app.use(contextMiddleware({ requestId: true }));
+ *
+ * app.get('/orders/:id', () => {
+ *   throw Object.assign(new Error('Order not found'), { status: 404 });
+ * });
+ *
+ * app.use(contextErrorHandler({ keys: ['contextId', 'userId'] }));
+ * // 404 application/problem+json
+ * // { "type": "about:blank", "title": "Not Found", "status": 404, "detail": "Order not found",
+ * //   "instance": "/orders/42", "requestId": "...", "context": { "userId": "u1" } }
+ */
+export const contextErrorHandler = (
+  options: ContextErrorHandlerOptions = {}
+) => {
+  const keys = options.keys ?? ['contextId'];
+  const exposeDetail =
+    options.exposeDetail ?? process.env.NODE_ENV !== 'production';
+
+  return (err: unknown, req: Request, res: Response, next: NextFunction) => {
+    const error = (
+      err instanceof Error ? err : new Error(String(err))
+    ) as ContextualError;
+    const ctx = req.context ?? useContext();
+
+    if (ctx) {
+      error.contextId = ctx.get('contextId');
+      error.context = {};
+      for (const key of keys) {
+        const value = ctx.get(key);
+        if (value !== undefined) error.context[key] = value;
+      }
+      ctx.reportError(error);
+    }
+
+    if (res.headersSent) {
+      return next(error);
+    }
+
+    const status = resolveStatus(error);
+    // contextId is already exposed as requestId
+    const context = { ...error.context };
+    delete context.contextId;
+    const problem: Record<string, unknown> = {
+      type:
+        typeof options.type === 'function'
+          ? options.type(error, status)
+          : (options.type ?? 'about:blank'),
+      title: STATUS_CODES[status] ?? 'Error',
+      status,
+      instance: req.originalUrl ?? req.url,
+      requestId: error.contextId,
+    };
+    if (status < 500 || error.expose === true || exposeDetail) {
+      problem.detail = error.message;
+    }
+    if (Object.keys(context).length > 0) {
+      problem.context = context;
+    }
+
+    res
+      .status(status)
+      .type('application/problem+json')
+      .send(JSON.stringify(problem));
+  };
+};
@@ -0,0 +1,53 @@
+/**
+ * Raised when a value written with `set` fails the validator registered for its key.
+ */
+export class ContextValidationError extends Error {
+  readonly key: string;
+
+  constructor(key: string, cause?: unknown) {
+    const reason = cause instanceof Error ? `: ${cause.message}` : '';
+    super(`Invalid value for context key "${key}"${reason}`);
+    this.name = 'ContextValidationError';
+    this.key = key;
+  }
+}
+
+/**
+ * Raised when a sealed key, or any key of a frozen context, is written or cleared.
+ */
+export class ContextSealedError extends Error {
+  readonly key?: string;
+  readonly frozen: boolean;
+
+  constructor(key?: string, frozen = false) {
+    super(
+      frozen
+        ? `Context is frozen${key === undefined ? '' : `: cannot change "${key}"`}`
+        : `Context key "${key}" is read-only`
+    );
+    this.name = 'ContextSealedError';
+    this.key = key;
+    this.frozen = frozen;
+  }
+}
+
+/**
+ * Raised when a request value declared in the `extract` option is missing or cannot be
+ * parsed. Carries status 400, so error handlers answer with Bad Request.
+ */
+export class ContextExtractionError extends Error {
+  readonly keys: string[];
+  readonly status = 400;
+  readonly statusCode = 400;
+  readonly expose = true;
+
+  constructor(problems: { key: string; reason: string }[]) {
+    super(
+      `Invalid request: ${problems
+        .map(({ key, reason }) => `"${key}" ${reason}`)
+        .join('; ')}`
+    );
+    this.name = 'ContextExtractionError';
+    this.keys = problems.map(({ key }) => key);
+  }
+}
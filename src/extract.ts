@@ -0,0 +1,73 @@
+import { IncomingMessage } from 'http';
+import { Request } from 'express';
+import { ContextExtractionError } from './errors';
+import { AllowedValueTypesRecord, ExtractRule, ExtractRules } from './types';
+import { readCookie, readHeader } from './utils';
+
+const describeSources = (rule: ExtractRule) =>
+  (['header', 'query', 'cookie'] as const)
+    .filter((source) => rule[source])
+    .map((source) => `${source} "${rule[source]}"`)
+    .join(', ');
+
+/**
+ * `NaN` and invalid dates, what `parse: Number` and `parse: (raw) => new Date(raw)`
+ * return for malformed input.
+ */
+const isInvalidResult = (value: unknown) =>
+  (typeof value === 'number' && Number.isNaN(value)) ||
+  (value instanceof Date && Number.isNaN(value.getTime()));
+
+/**
+ * Reads the values declared in `rules` from the request. Missing required values and
+ * parse failures are collected into a single `ContextExtractionError`.
+ */
+export const extractValues = (req: IncomingMessage, rules: ExtractRules) => {
+  const values: AllowedValueTypesRecord = {};
+  const problems: { key: string; reason: string }[] = [];
+  let query: URLSearchParams | undefined;
+
+  const readQuery = (name: string) => {
+    query ??= new URL(
+      (req as Partial<Request>).originalUrl ?? req.url ?? '/',
+      'http://localhost'
+    ).searchParams;
+    return query.get(name) ?? undefined;
+  };
+
+  for (const [key, rule] of Object.entries(rules)) {
+    const raw =
+      (rule.header && readHeader(req, rule.header)) ||
+      (rule.query && readQuery(rule.query)) ||
+      (rule.cookie &&
+        ((req as Partial<Request>).cookies?.[rule.cookie] ??
+          readCookie(req, rule.cookie))) ||
+      undefined;
+
+    if (raw === undefined) {
+      if (rule.default !== undefined) {
+        values[key] = rule.default;
+      } else if (rule.required) {
+        problems.push({
+          key,
+          reason: `is required (${describeSources(rule)})`,
+        });
+      }
+      continue;
+    }
+
+    try {
+      const value = rule.parse ? rule.parse(raw) : raw;
+      if (isInvalidResult(value)) throw new Error(`Invalid value "${raw}"`);
+      values[key] = value;
+    } catch (error) {
+      const reason = error instanceof Error ? `: ${error.message}` : '';
+      problems.push({ key, reason: `could not be parsed${reason}` });
+    }
+  }
+
+  return {
+    values,
+    error: problems.length ? new ContextExtractionError(problems) : undefined,
+  };
+};
@@ -0,0 +1,35 @@
+import { isSessionKey } from './session';
+import { ContextStore, LeakDetectionOptions } from './types';
+
+/**
+ * Periodically reports request contexts in `store` that have outlived `maxAge`.
+ * Session contexts are long-lived by design and are skipped. Returns a stop function.
+ */
+export const startLeakDetector = (
+  store: ContextStore,
+  options: LeakDetectionOptions
+) => {
+  const reported = new WeakSet<object>();
+  const onLeak =
+    options.onLeak ??
+    ((contextId, _context, age) =>
+      console.warn(
+        `[express-ctx] Context ${contextId} is still alive after ${age}ms; was its response ever finished?`
+      ));
+
+  const check = () => {
+    const now = Date.now();
+    for (const [id, context] of Array.from(store.entries())) {
+      if (isSessionKey(id) || reported.has(context)) continue;
+      const age = now - context.createdAt;
+      if (age > options.maxAge && !context.isDisposed) {
+        reported.add(context);
+        onLeak(String(context.get('contextId') ?? id), context, age);
+      }
+    }
+  };
+
+  const timer = setInterval(check, options.interval ?? options.maxAge);
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,156 @@
+import { useContext } from './context-storage';
+import { redactValue } from './utils';
+import { LogEntry, LoggerOptions, LogLevel, LogSink } from './types';
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+type Fields = Record<string, unknown>;
+type LevelMethod = (message: string, fields?: Fields) => void;
+
+/**
+ * Target shape shared by pino and winston loggers.
+ */
+type LevelLogger = Record<LogLevel, (...args: unknown[]) => void>;
+
+const serializeError = (error: Error) => ({
+  name: error.name,
+  message: error.message,
+  stack: error.stack,
+});
+
+const formatPretty = ({ level, time, message, ...fields }: LogEntry) => {
+  const details = Object.entries(fields)
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(' ');
+  return `${time} ${level.toUpperCase().padEnd(5)} ${message}${
+    details ? ` ${details}` : ''
+  }`;
+};
+
+/**
+ * Sink writing JSON lines (or pretty lines) to stdout, with warnings and errors on stderr.
+ */
+export const streamSink = (format: 'json' | 'pretty' = 'json'): LogSink => ({
+  write(entry) {
+    const line =
+      format === 'pretty'
+        ? formatPretty(entry)
+        : JSON.stringify(entry, (_key, value) =>
+            value instanceof Error ? serializeError(value) : value
+          );
+    const stream =
+      LEVELS[entry.level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  },
+});
+
+/**
+ * Fields of an entry without level, time and message, which pino and winston add themselves.
+ */
+const entryFields = (entry: LogEntry): Fields =>
+  Object.fromEntries(
+    Object.entries(entry).filter(
+      ([key]) => !['level', 'time', 'message'].includes(key)
+    )
+  );
+
+/**
+ * Forwards entries to a pino logger, which takes `(fields, message)`.
+ */
+export const pinoSink = (logger: LevelLogger): LogSink => ({
+  write(entry) {
+    logger[entry.level](entryFields(entry), entry.message);
+  },
+});
+
+/**
+ * Forwards entries to a winston logger, which takes `(message, fields)`.
+ */
+export const winstonSink = (logger: LevelLogger): LogSink => ({
+  write(entry) {
+    logger[entry.level](entry.message, entryFields(entry));
+  },
+});
+
+/**
+ * Creates a logger that merges the configured keys of the current context
+ * (resolved through `useContext()`) into every entry.
+ *
+ * @example
+ * import { createLogger, pinoSink } from '@bethel-nz/express-ctx';
+ *
+ * const logger = createLogger({
+ *   level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
+ *   contextKeys: ['contextId', 'userId', 'tenantId'],
+ *   redact: ['authorization', 'password'],
+ *   sink: pinoSink(pino()),
+ * });
+ *
+ * app.post('/login', (req, res) => {
+ *   logger.info('login attempt', { body: req.body }); // password is masked
+ *   const audit = logger.child({ component: 'audit' });
+ *   audit.warn('too many attempts');
+ * });
+ */
+export const createLogger = (options: LoggerOptions = {}) => {
+  const minLevel = LEVELS[options.level ?? 'info'];
+  const contextKeys = options.contextKeys ?? ['contextId'];
+  const redactKeys = new Set(
+    (options.redact ?? []).map((key) => key.toLowerCase())
+  );
+  const sink = options.sink ?? streamSink(options.format);
+  const bindings = options.bindings ?? {};
+
+  const log = (level: LogLevel, message: string, fields: Fields = {}) => {
+    if (LEVELS[level] < minLevel) return;
+
+    const contextFields: Fields = {};
+    const ctx = useContext();
+    if (ctx) {
+      for (const key of contextKeys) {
+        const value = ctx.get(key);
+        if (value !== undefined) contextFields[key] = value;
+      }
+    }
+
+    const merged = redactValue(
+      { ...contextFields, ...bindings, ...fields },
+      redactKeys
+    ) as Fields;
+    sink.write({
+      ...merged,
+      level,
+      time: new Date().toISOString(),
+      message,
+    });
+  };
+
+  const method =
+    (level: LogLevel): LevelMethod =>
+    (message, fields) =>
+      log(level, message, fields);
+
+  return {
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error'),
+    /**
+     * Returns a logger with the same settings and extra bound fields.
+     */
+    child: (childBindings: Fields) =>
+      createLogger({ ...options, bindings: { ...bindings, ...childBindings } }),
+  };
+};
+
+export type ContextLogger = ReturnType<typeof createLogger>;
+
+/**
+ * Default logger: JSON lines at `info` and above, tagged with `contextId`.
+ */
+export const ctxLogger = createLogger();
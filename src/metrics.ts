@@ -0,0 +1,280 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  ContextMetrics,
+  ContextStore,
+  Counter,
+  Gauge,
+  Histogram,
+  MetricLabels,
+} from './types';
+
+/**
+ * Buckets of the context lifetime histogram, in seconds.
+ */
+const LIFETIME_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 1800,
+];
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10];
+
+const escapeHelp = (help: string) =>
+  help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const escapeLabel = (value: string) => escapeHelp(value).replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels) => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+/**
+ * Identifies a label set regardless of the order its labels were given in.
+ */
+const labelKey = (labels: MetricLabels = {}) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : 1)));
+
+const formatValue = (value: number) =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf';
+
+interface Series<V> {
+  labels: MetricLabels;
+  value: V;
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+type Instrument =
+  | { type: 'counter'; help: string; series: Map<string, Series<number>> }
+  | {
+      type: 'gauge';
+      help: string;
+      value: number;
+      collect?: () => number;
+    }
+  | {
+      type: 'histogram';
+      help: string;
+      buckets: number[];
+      series: Map<string, Series<HistogramValue>>;
+    };
+
+/**
+ * In-process metrics registry rendered in the Prometheus text exposition format,
+ * without depending on a Prometheus client.
+ *
+ * @example
+ * const metrics = new PrometheusMetrics();
+ * app.use(contextMiddleware({ metrics }));
+ * app.get('/metrics', metricsHandler(metrics));
+ */
+export class PrometheusMetrics implements ContextMetrics {
+  private instruments = new Map<string, Instrument>();
+
+  counter(name: string, help: string): Counter {
+    const instrument = this.register(name, () => ({
+      type: 'counter' as const,
+      help,
+      series: new Map<string, Series<number>>(),
+    }));
+    return {
+      inc: (labels = {}, value = 1) => {
+        const key = labelKey(labels);
+        const series = instrument.series.get(key);
+        if (series) {
+          series.value += value;
+        } else {
+          instrument.series.set(key, { labels, value });
+        }
+      },
+    };
+  }
+
+  gauge(name: string, help: string, collect?: () => number): Gauge {
+    const instrument = this.register(name, () => ({
+      type: 'gauge' as const,
+      help,
+      value: 0,
+      collect,
+    }));
+    return {
+      inc: (value = 1) => {
+        instrument.value += value;
+      },
+      dec: (value = 1) => {
+        instrument.value -= value;
+      },
+    };
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    buckets: number[] = DEFAULT_BUCKETS
+  ): Histogram {
+    const instrument = this.register(name, () => ({
+      type: 'histogram' as const,
+      help,
+      buckets: [...buckets].sort((a, b) => a - b),
+      series: new Map<string, Series<HistogramValue>>(),
+    }));
+    return {
+      observe: (value, labels = {}) => {
+        const key = labelKey(labels);
+        let series = instrument.series.get(key);
+        if (!series) {
+          series = {
+            labels,
+            value: {
+              counts: instrument.buckets.map(() => 0),
+              sum: 0,
+              count: 0,
+            },
+          };
+          instrument.series.set(key, series);
+        }
+        const { counts } = series.value;
+        instrument.buckets.forEach((bound, index) => {
+          if (value <= bound) counts[index]++;
+        });
+        series.value.sum += value;
+        series.value.count++;
+      },
+    };
+  }
+
+  /**
+   * Renders every instrument in the Prometheus text exposition format (version 0.0.4).
+   */
+  render() {
+    const lines: string[] = [];
+    for (const [name, instrument] of this.instruments) {
+      lines.push(
+        `# HELP ${name} ${escapeHelp(instrument.help)}`,
+        `# TYPE ${name} ${instrument.type}`
+      );
+      if (instrument.type === 'gauge') {
+        const value = instrument.collect
+          ? instrument.collect()
+          : instrument.value;
+        lines.push(`${name} ${formatValue(value)}`);
+      } else if (instrument.type === 'counter') {
+        if (instrument.series.size === 0) lines.push(`${name} 0`);
+        for (const { labels, value } of instrument.series.values()) {
+          lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+        }
+      } else {
+        for (const { labels, value } of instrument.series.values()) {
+          instrument.buckets.forEach((bound, index) => {
+            lines.push(
+              `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index]}`
+            );
+          });
+          lines.push(
+            `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+            `${name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+            `${name}_count${formatLabels(labels)} ${value.count}`
+          );
+        }
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Returns the instrument registered under `name`, creating it on first use.
+   */
+  private register<I extends Instrument>(name: string, create: () => I): I {
+    const existing = this.instruments.get(name);
+    if (existing) {
+      const created = create();
+      if (existing.type !== created.type) {
+        throw new TypeError(
+          `Metric "${name}" is already registered as a ${existing.type}`
+        );
+      }
+      return existing as I;
+    }
+    const instrument = create();
+    this.instruments.set(name, instrument);
+    return instrument;
+  }
+}
+
+/**
+ * Serves `metrics.render()` as a Prometheus scrape target. Works as an Express route
+ * handler and as a raw `http.createServer` handler.
+ *
+ * @example
+ * app.get('/metrics', metricsHandler(metrics));
+ */
+export const metricsHandler =
+  (metrics: PrometheusMetrics) =>
+  (_req: IncomingMessage, res: ServerResponse) => {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.end(metrics.render());
+  };
+
+export type ContextInstruments = ReturnType<typeof createInstruments>;
+
+const createInstruments = (metrics: ContextMetrics) => ({
+  created: metrics.counter(
+    'express_ctx_contexts_created_total',
+    'Request contexts created.'
+  ),
+  disposed: metrics.counter(
+    'express_ctx_contexts_disposed_total',
+    'Request contexts disposed.'
+  ),
+  active: metrics.gauge(
+    'express_ctx_contexts_active',
+    'Request contexts created and not yet disposed.'
+  ),
+  lifetime: metrics.histogram(
+    'express_ctx_context_lifetime_seconds',
+    'Time from creating a request context to disposing it.',
+    LIFETIME_BUCKETS
+  ),
+  gets: metrics.counter(
+    'express_ctx_get_total',
+    'Context reads by result: a stored value (hit), a default value (default) or nothing (miss).'
+  ),
+  hookErrors: metrics.counter(
+    'express_ctx_hook_errors_total',
+    'Errors thrown or rejected by context hooks, by hook event.'
+  ),
+});
+
+const instrumentsByMetrics = new WeakMap<ContextMetrics, ContextInstruments>();
+
+/**
+ * The library's instruments on `metrics`, created once per metrics object.
+ */
+export const contextInstruments = (metrics: ContextMetrics) => {
+  let instruments = instrumentsByMetrics.get(metrics);
+  if (!instruments) {
+    instruments = createInstruments(metrics);
+    instrumentsByMetrics.set(metrics, instruments);
+  }
+  return instruments;
+};
+
+/**
+ * Reports the number of entries in `store` at scrape time. Only the first store
+ * registered on a metrics object is reported.
+ */
+export const observeStoreSize = (
+  metrics: ContextMetrics,
+  store: ContextStore
+) =>
+  metrics.gauge(
+    'express_ctx_store_size',
+    'Entries in the context store, including session contexts.',
+    () => store.size ?? Array.from(store.entries()).length
+  );
@@ -0,0 +1,206 @@
+import http from 'http';
+import https from 'https';
+import { syncBuiltinESMExports } from 'module';
+import { useContext } from './context-storage';
+import { getTraceHeaders } from './trace-context';
+import { DestinationRule, PropagationOptions } from './types';
+
+type HeadersLike = {
+  has(name: string): boolean;
+  set(name: string, value: string): void;
+};
+type FetchLike = (input: unknown, init?: { headers?: unknown }) => unknown;
+type RequestFn = typeof http.request;
+
+const matchesRule = (url: URL, rule: DestinationRule) => {
+  if (typeof rule === 'function') return rule(url);
+  if (rule instanceof RegExp) return rule.test(url.href);
+  if (rule.includes('://')) return url.origin === new URL(rule).origin;
+  if (rule.startsWith('*.')) {
+    return (
+      url.hostname === rule.slice(2) || url.hostname.endsWith(rule.slice(1))
+    );
+  }
+  return url.hostname === rule;
+};
+
+const isAllowed = (url: URL | undefined, options: PropagationOptions) => {
+  if (!url) return false;
+  if (options.deny?.some((rule) => matchesRule(url, rule))) return false;
+  return options.allow?.some((rule) => matchesRule(url, rule)) ?? false;
+};
+
+const toHeaderValue = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Returns the headers to add to a request to `url` from the current context.
+ */
+const contextHeaders = (url: URL | undefined, options: PropagationOptions) => {
+  const context = useContext();
+  const headers: Record<string, string> = {};
+  if (!context || !isAllowed(url, options)) return headers;
+
+  for (const [key, header] of Object.entries(options.headers)) {
+    const value = context.get(key);
+    if (value !== undefined && value !== null) {
+      headers[header.toLowerCase()] = toHeaderValue(value);
+    }
+  }
+  if (options.trace) {
+    Object.assign(headers, getTraceHeaders());
+  }
+  return headers;
+};
+
+const parseUrl = (value: unknown) => {
+  try {
+    return new URL(String(value));
+  } catch {
+    return undefined;
+  }
+};
+
+const wrapFetch =
+  (fetch: FetchLike, options: PropagationOptions): FetchLike =>
+  (input, init = {}) => {
+    const HeadersClass = (
+      globalThis as { Headers?: new (init?: unknown) => HeadersLike }
+    ).Headers;
+    const url = (input as { url?: string } | undefined)?.url ?? input;
+    const added = contextHeaders(parseUrl(url), options);
+    if (!HeadersClass || Object.keys(added).length === 0) {
+      return fetch(input, init);
+    }
+
+    const headers = new HeadersClass(
+      init.headers ?? (input as { headers?: unknown } | undefined)?.headers
+    );
+    for (const [name, value] of Object.entries(added)) {
+      // Headers set by the caller win
+      if (!headers.has(name)) headers.set(name, value);
+    }
+    return fetch(input, { ...init, headers });
+  };
+
+const requestUrl = (
+  target: string | URL | http.RequestOptions,
+  protocol: string
+) => {
+  if (typeof target === 'string' || target instanceof URL) {
+    return parseUrl(target);
+  }
+  const host = target.hostname ?? target.host ?? 'localhost';
+  const port = target.port ? `:${target.port}` : '';
+  return parseUrl(
+    `${target.protocol ?? protocol}//${host}${port}${target.path ?? '/'}`
+  );
+};
+
+const wrapRequest = (
+  request: RequestFn,
+  protocol: string,
+  options: PropagationOptions
+) =>
+  function (this: unknown, ...args: unknown[]) {
+    const target = args[0] as string | URL | http.RequestOptions;
+    const hasUrl = typeof target === 'string' || target instanceof URL;
+    const optionsIndex = hasUrl ? 1 : 0;
+    const requestOptions =
+      typeof args[optionsIndex] === 'object' && args[optionsIndex] !== null
+        ? (args[optionsIndex] as http.RequestOptions)
+        : undefined;
+
+    const added = contextHeaders(
+      requestUrl(hasUrl ? target : (requestOptions ?? {}), protocol),
+      options
+    );
+    if (
+      Object.keys(added).length > 0 &&
+      !Array.isArray(requestOptions?.headers)
+    ) {
+      const headers = { ...added };
+      for (const [name, value] of Object.entries(
+        requestOptions?.headers ?? {}
+      )) {
+        // Headers set by the caller win
+        delete headers[name.toLowerCase()];
+        headers[name] = value as string;
+      }
+      const patched = { ...requestOptions, headers };
+      if (requestOptions) {
+        args[optionsIndex] = patched;
+      } else {
+        args.splice(optionsIndex, 0, patched);
+      }
+    }
+    return (request as (...args: unknown[]) => http.ClientRequest).apply(
+      this,
+      args
+    );
+  } as RequestFn;
+
+let uninstallCurrent: (() => void) | undefined;
+
+/**
+ * Patches the global `fetch` and the `request`/`get` functions of `http` and `https` so
+ * calls made inside a context carry the mapped context keys as headers. Headers set by
+ * the caller are never overwritten, and nothing is added outside a context or for
+ * destinations that are denied or not allowed. Without `allow` rules no destination
+ * receives the headers. Installing again replaces the previous
+ * configuration. Returns a function that restores the original functions.
+ *
+ * @example
+ * installContextPropagation({
+ *   headers: { contextId: 'x-request-id', tenantId: 'x-tenant' },
+ *   allow: ['*.internal.example.com'],
+ *   deny: ['auth.internal.example.com'],
+ * });
+ *
+ * app.get('/orders', async (req, res) => {
+ *   // sent with x-request-id and x-tenant
+ *   const stock = await fetch('https://inventory.internal.example.com/stock');
+ *   res.json(await stock.json());
+ * });
+ */
+export const installContextPropagation = (options: PropagationOptions) => {
+  uninstallCurrent?.();
+  const restore: (() => void)[] = [];
+  const global = globalThis as { fetch?: FetchLike };
+
+  if (options.fetch !== false && global.fetch) {
+    const fetch = global.fetch;
+    global.fetch = wrapFetch(fetch, options);
+    restore.push(() => {
+      global.fetch = fetch;
+    });
+  }
+
+  if (options.http !== false) {
+    for (const [client, protocol] of [
+      [http, 'http:'],
+      [https, 'https:'],
+    ] as const) {
+      const { request, get } = client;
+      client.request = wrapRequest(request, protocol, options);
+      client.get = wrapRequest(get, protocol, options);
+      restore.push(() => {
+        client.request = request;
+        client.get = get;
+      });
+    }
+    // Keep `import { request } from 'http'` in ES modules in step with the patch
+    syncBuiltinESMExports();
+  }
+
+  const uninstall = () => {
+    if (uninstallCurrent !== uninstall) return;
+    uninstallCurrent = undefined;
+    restore.forEach((fn) => fn());
+    syncBuiltinESMExports();
+  };
+  uninstallCurrent = uninstall;
+  return uninstall;
+};
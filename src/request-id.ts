@@ -0,0 +1,96 @@
+import { randomBytes } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { v4 as uuidv4, v7 as uuidv7 } from 'uuid';
+import { parseTraceparent } from './trace-context';
+import { RequestIdGenerator, RequestIdOptions } from './types';
+import { readHeader } from './utils';
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const NANOID_ALPHABET =
+  'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+const DEFAULT_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Generates a ULID: a 48-bit millisecond timestamp followed by 80 random bits,
+ * Crockford base32 encoded so IDs sort by creation time.
+ */
+export const ulid = (now = Date.now()) => {
+  let time = '';
+  for (let i = 0, t = now; i < 10; i++, t = Math.floor(t / 32)) {
+    time = CROCKFORD_BASE32[t % 32] + time;
+  }
+  let random = '';
+  for (const byte of randomBytes(16)) {
+    random += CROCKFORD_BASE32[byte % 32];
+  }
+  return time + random;
+};
+
+/**
+ * Generates a 21 character URL-safe random ID in the style of nanoid.
+ */
+export const nanoid = (size = 21) => {
+  let id = '';
+  for (const byte of randomBytes(size)) {
+    id += NANOID_ALPHABET[byte & 63];
+  }
+  return id;
+};
+
+const generators: Record<
+  Exclude<RequestIdGenerator, () => string>,
+  () => string
+> = {
+  uuidv4: () => uuidv4(),
+  uuidv7: () => uuidv7(),
+  ulid: () => ulid(),
+  nanoid: () => nanoid(),
+};
+
+/**
+ * Extracts the trace-id from a W3C `traceparent` header, or undefined when the header is invalid.
+ */
+export const traceIdFromTraceparent = (header: string | undefined) =>
+  parseTraceparent(header)?.traceId;
+
+export const generateRequestId = (generator: RequestIdGenerator = 'uuidv4') =>
+  typeof generator === 'function' ? generator() : generators[generator]();
+
+const isValidId = (id: string, validate: RequestIdOptions['validate']) => {
+  if (typeof validate === 'function') return validate(id);
+  return (validate ?? DEFAULT_ID_PATTERN).test(id);
+};
+
+/**
+ * Picks the request ID for an incoming request: the first valid inbound header,
+ * then the `traceparent` trace-id if enabled, otherwise a newly generated ID.
+ */
+export const resolveRequestId = (
+  req: IncomingMessage,
+  options: RequestIdOptions
+) => {
+  const headers = options.headers ?? ['x-request-id'];
+  for (const name of headers) {
+    const id = readHeader(req, name)?.trim();
+    if (id && isValidId(id, options.validate)) return id;
+  }
+  if (options.traceparent) {
+    const traceId = traceIdFromTraceparent(readHeader(req, 'traceparent'));
+    if (traceId) return traceId;
+  }
+  return generateRequestId(options.generator);
+};
+
+/**
+ * Echoes the request ID back to the client on the configured response header.
+ */
+export const echoRequestId = (
+  res: ServerResponse,
+  requestId: string,
+  options: RequestIdOptions
+) => {
+  const header = options.responseHeader ?? 'x-request-id';
+  if (header) {
+    res.setHeader(header, requestId);
+  }
+};
@@ -0,0 +1,163 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import MyContext from './ctx';
+import { AllowedValueTypesRecord, ContextMiddlewareOptions } from './types';
+import {
+  ContextRuntime,
+  createContextRuntime,
+  getContextRuntime,
+} from './context-runtime';
+import { asyncLocalStorage } from './context-storage';
+import { echoRequestId, resolveRequestId } from './request-id';
+import { createTraceContext } from './trace-context';
+import { acquireSession, sessionKey, sweepSessions } from './session';
+import { extractValues } from './extract';
+import { ContextExtractionError } from './errors';
+import { mergeHooks, namespaceStore, resolveTenantId } from './tenant';
+
+/** Tenant runtimes kept per middleware before the oldest is dropped. */
+const MAX_TENANT_RUNTIMES = 1000;
+
+/**
+ * Framework-independent part of the request lifecycle, shared by `contextMiddleware`
+ * and the node:http, Koa and Fastify adapters. `open` resolves the request ID, trace
+ * and session of a raw Node request, reads the `extract` values, creates its context and
+ * disposes it exactly once when the response finishes, or when its connection closes or
+ * errors first. A `ContextExtractionError` is returned alongside the context, which is
+ * still created, so adapters can answer with 400 Bad Request through their usual path.
+ * With `tenant` configured, each tenant's contexts and sessions use the tenant's
+ * defaults and hooks and live in the tenant's namespace of the store.
+ */
+export const createRequestLifecycle = (
+  options: ContextMiddlewareOptions = {}
+) => {
+  const runtime = getContextRuntime(options);
+  const { config, store } = runtime;
+  const sessionOptions = config.session;
+  const requestIdOptions =
+    config.requestId === true ? {} : config.requestId || undefined;
+  const sweepInterval = Math.min(
+    sessionOptions?.idleTimeout ?? Infinity,
+    sessionOptions?.maxLifetime ?? Infinity
+  );
+  let lastSweep = Date.now();
+
+  const tenantOptions = config.tenant;
+  const tenantRuntimes = new Map<string, ContextRuntime>();
+  const isKnownTenant = (tenantId: string) =>
+    !tenantOptions?.tenants ||
+    Object.prototype.hasOwnProperty.call(tenantOptions.tenants, tenantId);
+
+  const runtimeFor = (tenantId: string) => {
+    let tenantRuntime = tenantRuntimes.get(tenantId);
+    if (!tenantRuntime) {
+      const tenantConfig = isKnownTenant(tenantId)
+        ? (tenantOptions?.tenants?.[tenantId] ?? {})
+        : {};
+      tenantRuntime = createContextRuntime({
+        ...options,
+        ...tenantConfig.defaults,
+        hooks: mergeHooks(config.hooks, tenantConfig.hooks),
+        store: namespaceStore(store, tenantId),
+        sealedKeys: [...(config.sealedKeys ?? ['contextId']), 'tenantId'],
+        // Singletons are shared with requests outside any tenant
+        services: runtime.services,
+        // The shared runtime's detector already watches the whole store
+        leakDetection: undefined,
+        tenant: undefined,
+      });
+      if (tenantRuntimes.size >= MAX_TENANT_RUNTIMES) {
+        tenantRuntimes.delete(tenantRuntimes.keys().next().value as string);
+      }
+      tenantRuntimes.set(tenantId, tenantRuntime);
+    }
+    return tenantRuntime;
+  };
+
+  const open = (req: IncomingMessage, res: ServerResponse) => {
+    const contextId = requestIdOptions
+      ? resolveRequestId(req, requestIdOptions)
+      : uuidv4();
+
+    let tenantId = tenantOptions
+      ? resolveTenantId(req, tenantOptions)
+      : undefined;
+    let tenantError: ContextExtractionError | undefined;
+    if (tenantOptions?.required && (!tenantId || !isKnownTenant(tenantId))) {
+      tenantError = new ContextExtractionError([
+        {
+          key: 'tenantId',
+          reason: tenantId ? 'is not a known tenant' : 'is required',
+        },
+      ]);
+      tenantId = undefined;
+    }
+    const scoped = tenantId === undefined ? runtime : runtimeFor(tenantId);
+
+    let sessionId: string | undefined;
+    let session: MyContext<AllowedValueTypesRecord> | undefined;
+    if (sessionOptions) {
+      if (Date.now() - lastSweep >= sweepInterval) {
+        lastSweep = Date.now();
+        sweepSessions(store, sessionOptions);
+      }
+      ({ sessionId, session } = acquireSession(
+        req,
+        res,
+        scoped.store,
+        sessionOptions,
+        {
+          defaultTTL: config.defaultTTL,
+          hooks: scoped.config.hooks,
+          strict: config.strict,
+          metrics: config.metrics,
+        }
+      ));
+    }
+
+    const { values: initialValues, error } = config.extract
+      ? extractValues(req, config.extract)
+      : { values: {} as AllowedValueTypesRecord, error: undefined };
+    if (requestIdOptions) {
+      initialValues.requestId = contextId;
+      echoRequestId(res, contextId, requestIdOptions);
+    }
+    if (config.trace) {
+      initialValues.trace = createTraceContext(req);
+    }
+    if (sessionId) {
+      initialValues.sessionId = sessionId;
+    }
+    if (tenantId !== undefined) {
+      initialValues.tenantId = tenantId;
+    }
+
+    const context = scoped.open(contextId, initialValues, { session });
+
+    // A response either finishes, or its connection closes or errors first
+    // (client disconnects, socket errors, responses never sent).
+    let tornDown = false;
+    const teardown = () => {
+      if (tornDown) return;
+      tornDown = true;
+      asyncLocalStorage.exit(() => {
+        scoped.close(context);
+        // An evicted session stays evicted
+        if (session && sessionId && !session.isDisposed) {
+          session.touch();
+          // Persist the session's latest values
+          scoped.store.set(sessionKey(sessionId), session);
+        }
+      });
+    };
+    res.on('finish', teardown);
+    res.on('close', teardown);
+    res.on('error', teardown);
+
+    return { context, error: tenantError ?? error };
+  };
+
+  return { runtime, open };
+};
+
+export type RequestLifecycle = ReturnType<typeof createRequestLifecycle>;
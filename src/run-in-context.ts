@@ -0,0 +1,93 @@
+import { v4 as uuidv4 } from 'uuid';
+import { asyncLocalStorage } from './context-storage';
+import { getContextRuntime } from './context-runtime';
+import { AllowedValueTypesRecord, ContextMiddlewareOptions } from './types';
+
+const defaultOptions: ContextMiddlewareOptions = {};
+
+/**
+ * Runs `fn` inside a new context outside of Express (queue workers, cron jobs, scripts,
+ * tests), so `useContext()` works in the code it calls. The context goes through the
+ * same lifecycle as a request context: default values, hooks (`onCreate`, `onDispose`,
+ * ...) and store come from `options`, errors thrown by `fn` are reported to the
+ * `onError` hooks, and the context is disposed once `fn` returns or its promise settles.
+ * Pass the same options object given to `contextMiddleware` to share its store and hooks.
+ *
+ * @param initialValues - Values set before `fn` runs; `contextId` is generated unless given
+ * @param fn - Code to run with the context active
+ * @param options - Default values and reserved configuration keys, as for `contextMiddleware`
+ *
+ * @example
+ * import { runInContext, useContext } from '@bethel-nz/express-ctx';
+ *
+ * const contextOptions = { appName: 'billing', hooks: { onError: report } };
+ * app.use(contextMiddleware(contextOptions));
+ *
+ * queue.process('invoice', (job) =>
+ *   runInContext({ contextId: job.id, tenantId: job.data.tenantId }, () => sendInvoice(job.data), contextOptions)
+ * );
+ *
+ * async function sendInvoice(data) {
+ *   const tenantId = useContext()?.get('tenantId');
+ * }
+ */
+export const runInContext = <R>(
+  initialValues: AllowedValueTypesRecord,
+  fn: () => R,
+  options: ContextMiddlewareOptions = defaultOptions
+): R => {
+  const runtime = getContextRuntime(options);
+  const contextId = String(initialValues.contextId ?? uuidv4());
+  const context = runtime.open(contextId, initialValues);
+
+  let result: R;
+  try {
+    result = asyncLocalStorage.run(context, fn);
+  } catch (error) {
+    context.reportError(error);
+    runtime.close(context);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result
+      .catch((error) => {
+        context.reportError(error);
+        throw error;
+      })
+      .finally(() => runtime.close(context)) as unknown as R;
+  }
+  runtime.close(context);
+  return result;
+};
+
+/**
+ * Wraps `fn` so that every call runs in its own new context (see `runInContext`).
+ *
+ * @example
+ * cron.schedule('0 * * * *', withContext(syncAccounts, { job: 'sync-accounts' }));
+ */
+export const withContext = <A extends unknown[], R>(
+  fn: (...args: A) => R,
+  options: ContextMiddlewareOptions = defaultOptions
+) => {
+  return (...args: A): R => runInContext({}, () => fn(...args), options);
+};
+
+/**
+ * Binds `fn` to the context active when `bindContext` is called, for callbacks that
+ * lose the async chain (EventEmitter listeners, timers scheduled by legacy libraries,
+ * connection pools). Outside a context, `fn` is returned unchanged.
+ *
+ * @example
+ * app.get('/export', (req, res) => {
+ *   legacyQueue.on('done', bindContext(() => {
+ *     useContext()?.get('contextId'); // this request's id
+ *   }));
+ * });
+ */
+export const bindContext = <A extends unknown[], R>(fn: (...args: A) => R) => {
+  const context = asyncLocalStorage.getStore();
+  if (!context) return fn;
+  return (...args: A): R => asyncLocalStorage.run(context, () => fn(...args));
+};
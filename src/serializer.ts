@@ -0,0 +1,138 @@
+/**
+ * JSON encoding for context values that plain `JSON.stringify` loses: `Date`, `Map`,
+ * `Set`, `BigInt`, `undefined` and non-finite numbers, at any depth. Such values are
+ * written as `{ "$type": ..., "value": ... }` tags; plain objects that happen to have
+ * a `$type` key are wrapped so they decode unchanged.
+ */
+
+type Tagged = { $type: string; value: unknown };
+
+const TYPE_KEY = '$type';
+
+const isPlainObject = (value: object) => {
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || proto === Object.prototype;
+};
+
+const isTagged = (value: unknown): value is Tagged =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as Tagged)[TYPE_KEY] === 'string';
+
+/**
+ * Converts a value into a JSON-safe structure that `decodeValue` turns back into it.
+ *
+ * @throws TypeError when the value contains a circular reference
+ */
+export const encodeValue = (value: unknown): unknown => {
+  const seen = new Set<object>();
+
+  const encode = (current: unknown): unknown => {
+    if (current === undefined) return { $type: 'undefined', value: null };
+    if (typeof current === 'bigint') {
+      return { $type: 'BigInt', value: current.toString() };
+    }
+    if (typeof current === 'number' && !Number.isFinite(current)) {
+      return { $type: 'Number', value: String(current) };
+    }
+    if (typeof current !== 'object' || current === null) return current;
+
+    if (current instanceof Date) {
+      return {
+        $type: 'Date',
+        value: Number.isNaN(current.getTime()) ? null : current.toISOString(),
+      };
+    }
+
+    if (seen.has(current)) {
+      throw new TypeError('Cannot serialize a circular structure');
+    }
+    seen.add(current);
+    try {
+      if (current instanceof Map) {
+        return {
+          $type: 'Map',
+          value: Array.from(current, ([key, item]) => [
+            encode(key),
+            encode(item),
+          ]),
+        };
+      }
+      if (current instanceof Set) {
+        return { $type: 'Set', value: Array.from(current, encode) };
+      }
+      if (Array.isArray(current)) {
+        return current.map(encode);
+      }
+
+      const source = isPlainObject(current)
+        ? (current as Record<string, unknown>)
+        : { ...current };
+      const encoded: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(source)) {
+        if (typeof item === 'function' || typeof item === 'symbol') continue;
+        encoded[key] = encode(item);
+      }
+      return TYPE_KEY in encoded
+        ? { $type: 'Object', value: encoded }
+        : encoded;
+    } finally {
+      seen.delete(current);
+    }
+  };
+
+  return encode(value);
+};
+
+/**
+ * Rebuilds a value from the output of `encodeValue`.
+ */
+export const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (isTagged(value)) {
+    switch (value.$type) {
+      case 'undefined':
+        return undefined;
+      case 'BigInt':
+        return BigInt(value.value as string);
+      case 'Number':
+        return Number(value.value);
+      case 'Date':
+        return new Date(value.value === null ? NaN : (value.value as string));
+      case 'Map':
+        return new Map(
+          (value.value as [unknown, unknown][]).map(([key, item]) => [
+            decodeValue(key),
+            decodeValue(item),
+          ])
+        );
+      case 'Set':
+        return new Set((value.value as unknown[]).map(decodeValue));
+      case 'Object':
+        return decodeObject(value.value as Record<string, unknown>);
+    }
+  }
+  return decodeObject(value as Record<string, unknown>);
+};
+
+const decodeObject = (value: Record<string, unknown>) => {
+  const decoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    decoded[key] = decodeValue(item);
+  }
+  return decoded;
+};
+
+/**
+ * Serializes a value to a JSON string, preserving the types listed above.
+ *
+ * @example
+ * const text = serialize({ since: new Date(), roles: new Set(['admin']) });
+ * deserialize(text); // { since: Date, roles: Set { 'admin' } }
+ */
+export const serialize = (value: unknown) => JSON.stringify(encodeValue(value));
+
+export const deserialize = (text: string) => decodeValue(JSON.parse(text));
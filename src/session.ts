@@ -0,0 +1,159 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import MyContext from './ctx';
+import {
+  AllowedValueTypesRecord,
+  ContextConfig,
+  ContextSnapshot,
+  ContextStore,
+  SessionOptions,
+} from './types';
+import { readCookie, readHeader, serializeCookie } from './utils';
+import { stripTenantNamespace } from './tenant';
+
+export const sessionKey = (sessionId: string) => `session:${sessionId}`;
+
+/**
+ * Whether a store key holds a session context, inside a tenant namespace or not.
+ */
+export const isSessionKey = (key: string) =>
+  stripTenantNamespace(key).startsWith(sessionKey(''));
+
+/**
+ * Finds the session ID for a request using the resolver, header and cookie, in that order.
+ * IDs from the resolver are `trusted`: the application vouches for them. Header and
+ * cookie IDs are chosen by the client.
+ */
+export const resolveSessionId = (
+  req: IncomingMessage,
+  options: SessionOptions
+): { sessionId?: string; trusted: boolean } => {
+  const fromResolver = options.resolve?.(req);
+  if (fromResolver) return { sessionId: fromResolver, trusted: true };
+  if (options.header) {
+    const fromHeader = readHeader(req, options.header);
+    if (fromHeader) return { sessionId: fromHeader, trusted: false };
+  }
+  if (options.cookie) {
+    const fromCookie =
+      (req as Partial<Request>).cookies?.[options.cookie] ??
+      readCookie(req, options.cookie);
+    if (fromCookie) return { sessionId: fromCookie, trusted: false };
+  }
+  return { trusted: false };
+};
+
+/**
+ * Hands a newly created session ID back to the client on the configured header and cookie.
+ */
+export const issueSessionId = (
+  res: ServerResponse,
+  sessionId: string,
+  options: SessionOptions
+) => {
+  if (options.header) {
+    res.setHeader(options.header, sessionId);
+  }
+  if (options.cookie) {
+    const existing = res.getHeader('Set-Cookie') ?? [];
+    res.setHeader('Set-Cookie', [
+      ...(Array.isArray(existing) ? existing : [String(existing)]),
+      serializeCookie(options.cookie, sessionId, {
+        maxAge: options.maxLifetime,
+      }),
+    ]);
+  }
+};
+
+export const isSessionExpired = (
+  session: Pick<ContextSnapshot, 'createdAt' | 'lastAccessedAt'>,
+  options: SessionOptions,
+  now = Date.now()
+) =>
+  (options.idleTimeout !== undefined &&
+    now - session.lastAccessedAt > options.idleTimeout) ||
+  (options.maxLifetime !== undefined &&
+    now - session.createdAt > options.maxLifetime);
+
+/**
+ * Returns the stored session under `key`. A session persisted by an earlier process
+ * is first rebuilt with `sessionConfig`, so it gets this middleware's defaults and hooks.
+ */
+const findSession = (
+  store: ContextStore,
+  key: string,
+  sessionConfig: ContextConfig
+) => {
+  const snapshot = store.takeSnapshot?.(key);
+  if (snapshot) {
+    store.set(key, MyContext.fromSnapshot(snapshot, {}, sessionConfig));
+  }
+  return store.get(key);
+};
+
+/**
+ * Returns the live session context for the request, creating one when the
+ * ID is unknown, expired or missing. Unknown header and cookie IDs are replaced
+ * by a new ID; new IDs are issued back to the client.
+ */
+export const acquireSession = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  store: ContextStore,
+  options: SessionOptions,
+  sessionConfig: ContextConfig
+) => {
+  const resolved = resolveSessionId(req, options);
+  let { sessionId } = resolved;
+  let session = sessionId
+    ? findSession(store, sessionKey(sessionId), sessionConfig)
+    : undefined;
+
+  if (session && isSessionExpired(session, options)) {
+    session.dispose();
+    store.delete(sessionKey(sessionId as string));
+    session = undefined;
+  }
+
+  // A client-chosen ID the server does not know is replaced, so nobody can
+  // plant a session ID on someone else (session fixation)
+  if (!session && !resolved.trusted) {
+    sessionId = undefined;
+  }
+
+  if (!sessionId) {
+    sessionId = uuidv4();
+    issueSessionId(res, sessionId, options);
+  }
+
+  if (!session) {
+    session = new MyContext<AllowedValueTypesRecord>(
+      {},
+      { ...sessionConfig, initialValues: { sessionId } }
+    );
+    store.set(sessionKey(sessionId), session);
+  }
+
+  session.touch();
+  store.touch(sessionKey(sessionId));
+  return { sessionId, session };
+};
+
+/**
+ * Evicts every stored session that has passed its idle timeout or max lifetime.
+ */
+export const sweepSessions = (store: ContextStore, options: SessionOptions) => {
+  const now = Date.now();
+  for (const [key, session] of Array.from(store.entries())) {
+    if (isSessionKey(key) && isSessionExpired(session, options, now)) {
+      session.dispose();
+      store.delete(key);
+    }
+  }
+  for (const [key, snapshot] of Array.from(store.snapshots?.() ?? [])) {
+    if (isSessionKey(key) && isSessionExpired(snapshot, options, now)) {
+      store.delete(key);
+    }
+  }
+};
@@ -0,0 +1,109 @@
+import { IncomingMessage } from 'http';
+import { useContext } from './context-storage';
+import { ContextStore, GlobalHooks, TenantOptions } from './types';
+import { readHeader } from './utils';
+
+const TENANT_PREFIX = /^tenant\/[^/]*\//;
+
+/**
+ * Store key of `key` inside the tenant's namespace. Tenant IDs are URI-encoded, and the
+ * `/` separator cannot appear in generated or validated request IDs, so keys written
+ * outside a tenant never fall inside one.
+ */
+export const tenantKey = (tenantId: string, key: string) =>
+  `tenant/${encodeURIComponent(tenantId)}/${key}`;
+
+/**
+ * Removes the tenant namespace from a store key, if any.
+ */
+export const stripTenantNamespace = (key: string) =>
+  key.replace(TENANT_PREFIX, '');
+
+/**
+ * A view of `store` restricted to one tenant: every key is read and written inside the
+ * tenant's namespace, and `entries` only lists that tenant's contexts.
+ */
+export const namespaceStore = (
+  store: ContextStore,
+  tenantId: string
+): ContextStore => {
+  const prefix = tenantKey(tenantId, '');
+  return {
+    get: (id) => store.get(prefix + id),
+    set: (id, context) => store.set(prefix + id, context),
+    delete: (id) => store.delete(prefix + id),
+    touch: (id) => store.touch(prefix + id),
+    *entries() {
+      for (const [key, context] of store.entries()) {
+        if (key.startsWith(prefix)) yield [key.slice(prefix.length), context];
+      }
+    },
+    takeSnapshot: (id) => store.takeSnapshot?.(prefix + id),
+    *snapshots() {
+      for (const [key, snapshot] of store.snapshots?.() ?? []) {
+        if (key.startsWith(prefix)) yield [key.slice(prefix.length), snapshot];
+      }
+    },
+  };
+};
+
+/**
+ * Finds the tenant ID of a request using the resolver, header, host and path, in that order.
+ */
+export const resolveTenantId = (
+  req: IncomingMessage,
+  options: TenantOptions
+): string | undefined => {
+  const fromResolver = options.resolve?.(req);
+  if (fromResolver) return fromResolver;
+  if (options.header) {
+    const fromHeader = readHeader(req, options.header);
+    if (fromHeader) return fromHeader;
+  }
+  if (options.host) {
+    const hostname = (readHeader(req, 'host') ?? '').replace(/:\d+$/, '');
+    const fromHost =
+      typeof options.host === 'function'
+        ? options.host(hostname)
+        : hostname.split('.').length > 2
+          ? hostname.split('.')[0]
+          : undefined;
+    if (fromHost) return fromHost;
+  }
+  if (options.path) {
+    const segment = (req.url ?? '/').split(/[/?#]/)[1];
+    if (segment) {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        // a malformed segment names no tenant
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Registers the tenant's hooks after the shared ones.
+ */
+export const mergeHooks = (
+  shared: GlobalHooks = {},
+  tenant: GlobalHooks = {}
+): GlobalHooks => {
+  const merged: Record<string, unknown[]> = {};
+  for (const hooks of [shared, tenant]) {
+    for (const [event, handlers] of Object.entries(hooks)) {
+      merged[event] = (merged[event] ?? []).concat(handlers);
+    }
+  }
+  return merged as GlobalHooks;
+};
+
+/**
+ * Returns the tenant of the current request (`tenantId`), or undefined outside a tenant.
+ *
+ * @example
+ * const orders = await db.orders.find({ tenantId: useTenant() });
+ */
+export const useTenant = (): string | undefined =>
+  useContext()?.get('tenantId');
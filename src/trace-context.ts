@@ -0,0 +1,195 @@
+import { randomBytes } from 'crypto';
+import { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import { useContext } from './context-storage';
+import { TraceContext } from './types';
+import { readHeader } from './utils';
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const MAX_TRACESTATE_MEMBERS = 32;
+
+type HeadersLike = { set(name: string, value: string): void };
+type FetchLike = (
+  input: unknown,
+  init?: { headers?: unknown }
+) => Promise<Response>;
+
+export const generateTraceId = () => randomBytes(16).toString('hex');
+export const generateSpanId = () => randomBytes(8).toString('hex');
+
+/**
+ * Parses a W3C `traceparent` header, returning undefined when it is missing or invalid.
+ */
+export const parseTraceparent = (header: string | undefined) => {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim()) : null;
+  if (
+    !match ||
+    match[1] === 'ff' ||
+    /^0+$/.test(match[2]) ||
+    /^0+$/.test(match[3])
+  ) {
+    return undefined;
+  }
+  return {
+    version: match[1],
+    traceId: match[2],
+    parentId: match[3],
+    flags: match[4],
+  };
+};
+
+/**
+ * Parses a `tracestate` header into ordered `[key, value]` members.
+ */
+export const parseTracestate = (header: string | undefined) => {
+  if (!header) return [];
+  const members: [string, string][] = [];
+  for (const member of header.split(',')) {
+    const separator = member.indexOf('=');
+    if (separator <= 0) continue;
+    members.push([
+      member.slice(0, separator).trim(),
+      member.slice(separator + 1).trim(),
+    ]);
+  }
+  return members.slice(0, MAX_TRACESTATE_MEMBERS);
+};
+
+/**
+ * Parses a W3C `baggage` header into a key/value record. Member properties are dropped.
+ */
+export const parseBaggage = (header: string | undefined) => {
+  const baggage: Record<string, string> = {};
+  if (!header) return baggage;
+  for (const member of header.split(',')) {
+    const [pair] = member.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    const key = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    try {
+      baggage[key] = decodeURIComponent(value);
+    } catch {
+      baggage[key] = value;
+    }
+  }
+  return baggage;
+};
+
+/**
+ * Continues the caller's trace from the request headers, or starts a new one,
+ * with a fresh span ID for the work done by this service.
+ */
+export const createTraceContext = (req: IncomingMessage): TraceContext => {
+  const parent = parseTraceparent(readHeader(req, 'traceparent'));
+  const flags = parent?.flags ?? '01';
+  return {
+    traceId: parent?.traceId ?? generateTraceId(),
+    spanId: generateSpanId(),
+    parentSpanId: parent?.parentId,
+    flags,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    // tracestate is only meaningful alongside a valid traceparent
+    tracestate: parent ? parseTracestate(readHeader(req, 'tracestate')) : [],
+    baggage: parseBaggage(readHeader(req, 'baggage')),
+  };
+};
+
+/**
+ * Derives a child span of `trace`, e.g. for an outgoing call or a sub-operation.
+ */
+export const createChildSpan = (trace: TraceContext): TraceContext => ({
+  ...trace,
+  spanId: generateSpanId(),
+  parentSpanId: trace.spanId,
+  tracestate: [...trace.tracestate],
+  baggage: { ...trace.baggage },
+});
+
+/**
+ * Serializes a trace into `traceparent`, `tracestate` and `baggage` headers.
+ */
+export const formatTraceHeaders = (trace: TraceContext) => {
+  const headers: Record<string, string> = {
+    traceparent: `00-${trace.traceId}-${trace.spanId}-${trace.flags}`,
+  };
+  if (trace.tracestate.length > 0) {
+    headers.tracestate = trace.tracestate
+      .map(([key, value]) => `${key}=${value}`)
+      .join(',');
+  }
+  const baggage = Object.entries(trace.baggage);
+  if (baggage.length > 0) {
+    headers.baggage = baggage
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join(',');
+  }
+  return headers;
+};
+
+/**
+ * Returns the trace of the current request, or undefined when tracing is
+ * disabled or when called outside a context.
+ */
+export const useTrace = (): TraceContext | undefined =>
+  useContext()?.get('trace');
+
+/**
+ * Builds the trace headers for one outgoing call. A new child span of the current
+ * trace is created so each call gets its own parent-id. Returns `{}` without a trace.
+ */
+export const getTraceHeaders = (
+  trace: TraceContext | undefined = useTrace()
+): Record<string, string> =>
+  trace ? formatTraceHeaders(createChildSpan(trace)) : {};
+
+/**
+ * Adds the current trace headers to `headers`, which may be a `Headers` instance or a
+ * plain object such as `http.request` options headers. Plain objects are copied, not mutated.
+ *
+ * @example
+ * http.request(url, { headers: injectTraceHeaders({ accept: 'application/json' }) });
+ */
+export function injectTraceHeaders<H extends HeadersLike>(
+  headers: H,
+  trace?: TraceContext
+): H;
+export function injectTraceHeaders(
+  headers?: OutgoingHttpHeaders,
+  trace?: TraceContext
+): OutgoingHttpHeaders;
+export function injectTraceHeaders(
+  headers: OutgoingHttpHeaders | HeadersLike = {},
+  trace: TraceContext | undefined = useTrace()
+) {
+  const traceHeaders = getTraceHeaders(trace);
+  if (typeof (headers as HeadersLike).set === 'function') {
+    for (const [name, value] of Object.entries(traceHeaders)) {
+      (headers as HeadersLike).set(name, value);
+    }
+    return headers;
+  }
+  return { ...(headers as OutgoingHttpHeaders), ...traceHeaders };
+}
+
+/**
+ * Calls the global `fetch` with the current trace headers added to the request.
+ *
+ * @example
+ * const response = await tracedFetch('https://inventory.internal/items', { method: 'GET' });
+ * const items = await response.json();
+ */
+export const tracedFetch = (
+  input: unknown,
+  init: { headers?: unknown; [key: string]: unknown } = {}
+): Promise<Response> => {
+  const fetch = (globalThis as { fetch?: FetchLike }).fetch;
+  const HeadersClass = (
+    globalThis as { Headers?: new (init?: unknown) => HeadersLike }
+  ).Headers;
+  if (!fetch || !HeadersClass) {
+    throw new Error('tracedFetch requires a global fetch (Node 18+)');
+  }
+  const headers = injectTraceHeaders(new HeadersClass(init.headers));
+  return fetch(input, { ...init, headers });
+};
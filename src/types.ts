@@ -1,3 +1,8 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Request } from 'express';
+import type MyContext from './ctx';
+import type { ServiceContainer } from './container';
+
 export type AllowedValueTypes = baseType | AllowedObject | AllowedValueTypes[];
 
 //eslint-disable-next-line
@@ -7,7 +12,450 @@ export type AllowedObject = Record<string, baseType>;
 
 export type AllowedValueTypesRecord = Record<string, AllowedValueTypes>;
 
-export type ContextMiddlewareOptions = Record<string, AllowedValueTypes>;
+/**
+ * A hook's return value, optionally asynchronous. Returning `undefined` changes nothing.
+ */
+export type HookResult<R = void> = R | void | Promise<R | void>;
+
+/**
+ * Handlers accepted by `MyContext.hook`, by event.
+ */
+export interface ContextHooks {
+  /** Runs before a value is stored. Return a value to replace it; throw to reject the write. */
+  beforeSet: (
+    key: string,
+    value: AllowedValueTypes
+  ) => HookResult<AllowedValueTypes>;
+  /** Runs before a read. Return a value to supply it instead of the stored one. */
+  beforeGet: (key: string) => HookResult<AllowedValueTypes>;
+  afterSet: (key: string, value: AllowedValueTypes) => HookResult;
+  onSet: (key: string, value: AllowedValueTypes) => HookResult;
+  onClear: (key?: string) => HookResult;
+  onExpire: (key: string, value: AllowedValueTypes) => HookResult;
+  onError: (error: Error) => HookResult;
+  /** Fires once a context has been created and its initial values set. */
+  onCreate: (context: MyContext<AllowedValueTypesRecord>) => HookResult;
+  /** Fires when a context is torn down, e.g. when its response finishes. */
+  onDispose: (context: MyContext<AllowedValueTypesRecord>) => HookResult;
+}
+
+export type HookEvent = keyof ContextHooks;
+
+/**
+ * Hooks declared once (e.g. on `contextMiddleware`) and registered on every context.
+ */
+export type GlobalHooks = {
+  [E in HookEvent]?: ContextHooks[E] | ContextHooks[E][];
+};
+
+export interface HookOptions {
+  /** Handlers with a higher priority run first; equal priorities run in registration order. */
+  priority?: number;
+}
+
+/**
+ * A stored context value with its optional expiry timestamp.
+ */
+export interface ContextEntry {
+  value: AllowedValueTypes;
+  expiresAt?: number;
+}
+
+/**
+ * JSON-safe form of a MyContext, produced by `snapshot()`/`toJSON()` and used by
+ * persistent stores. Entry values are encoded with `encodeValue` so `Date`, `Map`,
+ * `Set` and `BigInt` values survive `JSON.stringify`.
+ */
+export interface ContextSnapshot {
+  /** Encoding version of the entry values. */
+  version: number;
+  createdAt: number;
+  lastAccessedAt: number;
+  entries: Record<string, ContextEntry>;
+}
+
+/**
+ * Where `contextMiddleware` keeps live request and session contexts.
+ */
+export interface ContextStore {
+  get(id: string): MyContext<AllowedValueTypesRecord> | undefined;
+  set(id: string, context: MyContext<AllowedValueTypesRecord>): void;
+  delete(id: string): void;
+  /** Marks an entry as recently used without changing it. */
+  touch(id: string): void;
+  entries(): Iterable<[string, MyContext<AllowedValueTypesRecord>]>;
+  /** Number of stored entries. Stores without it are counted through `entries()`. */
+  readonly size?: number;
+  /**
+   * Persistent stores: removes and returns the snapshot of an entry loaded from an
+   * earlier process, so the caller can rebuild it with its own config and `set` it.
+   */
+  takeSnapshot?(id: string): ContextSnapshot | undefined;
+  /** Persistent stores: the loaded snapshots that have not been taken yet. */
+  snapshots?(): Iterable<[string, ContextSnapshot]>;
+}
+
+/**
+ * Runtime check for a context key: a predicate (returning `false` or throwing rejects
+ * the value) or a schema-like object whose `parse` returns the value to store.
+ */
+export type ContextValidator<V = AllowedValueTypes> =
+  ((value: unknown) => boolean | void) | { parse: (value: unknown) => V };
+
+export type ContextValidators<T extends Record<string, AllowedValueTypes>> = {
+  [K in keyof T]?: ContextValidator<T[K]>;
+};
+
+/**
+ * Loads a value for `ctx.resolve(key)`, e.g. the current user from the `userId` key.
+ */
+export type ContextProvider<
+  V = AllowedValueTypes,
+  T extends Record<string, AllowedValueTypes> = AllowedValueTypesRecord,
+> = (ctx: MyContext<T>) => V | Promise<V>;
+
+export type ContextProviders<T extends Record<string, AllowedValueTypes>> = {
+  [K in keyof T]?: ContextProvider<T[K], T>;
+};
+
+/**
+ * Typed key of a service, created with `createToken`.
+ */
+export interface InjectionToken<V> {
+  readonly name: string;
+  /** Type marker only; never set. */
+  readonly __type?: V;
+}
+
+/**
+ * `singleton` instances are shared by every context, `request` instances by one context
+ * (and its forks), and `transient` services are created on every `inject`.
+ */
+export type ServiceScope = 'singleton' | 'request' | 'transient';
+
+export interface ServiceDefinition<V = unknown> {
+  token: InjectionToken<V>;
+  factory: (ctx: MyContext<AllowedValueTypesRecord>) => V;
+  /** Defaults to `'request'`. */
+  scope?: ServiceScope;
+  /**
+   * Releases a `request` or `transient` instance when its context is disposed. It receives
+   * whatever `factory` returned, so an async factory hands it the promise.
+   */
+  dispose?: (instance: V) => HookResult;
+}
+
+/**
+ * Behavioural settings for a MyContext instance, kept apart from its default values.
+ */
+export interface ContextConfig {
+  /** TTL in milliseconds applied to `set` calls that don't pass their own. */
+  defaultTTL?: number;
+  /** Session-scoped context shared by every request of the same session. */
+  session?: MyContext<AllowedValueTypesRecord>;
+  /** Validators run by `set`; rejected values are reported through `onError`. */
+  validators?: ContextValidators<AllowedValueTypesRecord>;
+  /** Hooks registered when the context is created. */
+  hooks?: GlobalHooks;
+  /** Values validated and set before `onCreate` fires, skipping the `beforeSet` hooks. */
+  initialValues?: AllowedValueTypesRecord;
+  /** Context that reads fall through to when a key is not set locally. */
+  parent?: MyContext<AllowedValueTypesRecord>;
+  /** Keys sealed once the initial values are set. Defaults to `['contextId']`. */
+  sealedKeys?: string[];
+  /** Throw `ContextSealedError` from writes to sealed keys instead of reporting it through `onError`. */
+  strict?: boolean;
+  /** Loaders run by `resolve`, at most once per context while their value is stored. */
+  providers?: ContextProviders<AllowedValueTypesRecord>;
+  /** Services available through `inject`. */
+  services?: ServiceContainer;
+  /** Where `get` results and hook errors are counted. */
+  metrics?: ContextMetrics;
+}
+
+/**
+ * How `contextMiddleware` finds and expires session contexts.
+ * The ID is taken from `resolve`, then `header`, then `cookie`.
+ */
+export interface SessionOptions {
+  header?: string;
+  cookie?: string;
+  /** Returns a trusted session ID. Receives the raw request, as every adapter passes it. */
+  resolve?: (req: IncomingMessage) => string | undefined;
+  /** Evict a session after this many milliseconds without a request. */
+  idleTimeout?: number;
+  /** Evict a session this many milliseconds after it was created. */
+  maxLifetime?: number;
+}
+
+/**
+ * Built-in request ID formats, or a custom generator function.
+ */
+export type RequestIdGenerator =
+  'uuidv4' | 'uuidv7' | 'ulid' | 'nanoid' | (() => string);
+
+/**
+ * How `contextMiddleware` picks the request ID stored as `contextId` and `requestId`.
+ */
+export interface RequestIdOptions {
+  /** Inbound headers to honour, checked in order. Defaults to `['x-request-id']`; `[]` ignores them. */
+  headers?: string[];
+  /** Fall back to the trace-id of an incoming `traceparent` header. */
+  traceparent?: boolean;
+  /** Accepted inbound IDs. Defaults to 1-128 word characters, `.`, `:` or `-`. */
+  validate?: RegExp | ((id: string) => boolean);
+  /** Used when no valid inbound ID is found. Defaults to `'uuidv4'`. */
+  generator?: RequestIdGenerator;
+  /** Response header the ID is echoed on. Defaults to `'x-request-id'`; `false` disables it. */
+  responseHeader?: string | false;
+}
+
+/**
+ * W3C Trace Context for the current request, stored on the context as `trace`.
+ */
+export interface TraceContext {
+  traceId: string;
+  /** Span ID of the work done by this service for the request. */
+  spanId: string;
+  /** Span ID of the caller, taken from the inbound `traceparent`. */
+  parentSpanId?: string;
+  /** Trace flags as two hex digits, e.g. `01` when sampled. */
+  flags: string;
+  sampled: boolean;
+  tracestate: [string, string][];
+  baggage: Record<string, string>;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A single log line: the message, its level and timestamp, merged context keys and fields.
+ */
+export interface LogEntry {
+  level: LogLevel;
+  time: string;
+  message: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Destination for log entries, e.g. stdout or an adapter around pino/winston.
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+export interface LoggerOptions {
+  /** Entries below this level are dropped. Defaults to `'info'`. */
+  level?: LogLevel;
+  /** Output format of the default stdout sink. Defaults to `'json'`. */
+  format?: 'json' | 'pretty';
+  /** Context keys merged into every entry. Defaults to `['contextId']`. */
+  contextKeys?: string[];
+  /** Keys (matched case-insensitively, at any depth) whose values are masked. */
+  redact?: string[];
+  sink?: LogSink;
+  /** Fields added to every entry. */
+  bindings?: Record<string, unknown>;
+}
+
+/**
+ * Warns about request contexts still alive after `maxAge`, which usually means
+ * a response that never finished or a reference that escaped the request.
+ */
+export interface LeakDetectionOptions {
+  /** Age in milliseconds after which a live context is reported. */
+  maxAge: number;
+  /** How often stored contexts are checked. Defaults to `maxAge`. */
+  interval?: number;
+  /** Called once per leaked context. Defaults to a `console.warn`. */
+  onLeak?: (
+    contextId: string,
+    context: MyContext<AllowedValueTypesRecord>,
+    age: number
+  ) => void;
+}
+
+export interface ContextErrorHandlerOptions {
+  /** Context keys attached to the error and included in the response. Defaults to `['contextId']`. */
+  keys?: string[];
+  /** Problem `type` URI. Defaults to `'about:blank'`. */
+  type?: string | ((error: Error, status: number) => string);
+  /**
+   * Include the error message as `detail` for 5xx errors. Defaults to true outside production.
+   * 4xx messages, and errors with `expose: true`, are always included.
+   */
+  exposeDetail?: boolean;
+}
+
+export interface ContextAdminOptions {
+  /**
+   * Decides whether a request may use the admin endpoints; denied requests get a 403.
+   * Required, so the router is never mounted unprotected by accident.
+   */
+  guard: (req: Request) => boolean | Promise<boolean>;
+  /** Store to inspect. Defaults to the store shared by middlewares configured without one. */
+  store?: ContextStore;
+  /** Keys (matched case-insensitively, at any depth) whose values are masked in dumps. */
+  redact?: string[];
+}
+
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Gauge {
+  inc(value?: number): void;
+  dec(value?: number): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * Creates the instruments the library records its metrics with. Asking twice for the
+ * same name returns the same instrument. `PrometheusMetrics` implements it; wrap
+ * prom-client or a StatsD client in it to report into an existing registry.
+ */
+export interface ContextMetrics {
+  counter(name: string, help: string): Counter;
+  /** `collect`, when given, is read at scrape time instead of `inc`/`dec` totals. */
+  gauge(name: string, help: string, collect?: () => number): Gauge;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+}
+
+/**
+ * Per-tenant settings, applied on top of the shared middleware options.
+ */
+export interface TenantConfig {
+  /** Default values for this tenant's contexts. */
+  defaults?: AllowedValueTypesRecord;
+  /** Hooks registered after the shared hooks on this tenant's contexts. */
+  hooks?: GlobalHooks;
+}
+
+/**
+ * How `contextMiddleware` finds the tenant of a request. Sources are tried in the order
+ * `resolve`, `header`, `host`, `path`.
+ */
+export interface TenantOptions {
+  resolve?: (req: IncomingMessage) => string | undefined;
+  header?: string;
+  /** `true` takes the first label of a host with three or more labels (`acme.example.com` -> `acme`). */
+  host?: boolean | ((hostname: string) => string | undefined);
+  /** `true` takes the first path segment (`/acme/orders` -> `acme`). */
+  path?: boolean;
+  /** Settings per tenant ID. */
+  tenants?: Record<string, TenantConfig>;
+  /** Answer with 400 Bad Request when no tenant is found, or it is not listed in `tenants`. */
+  required?: boolean;
+}
+
+/**
+ * Where a context value is read from on the incoming request. Sources are tried in the
+ * order header, query, cookie.
+ */
+export interface ExtractRule<V extends AllowedValueTypes = AllowedValueTypes> {
+  header?: string;
+  query?: string;
+  cookie?: string;
+  /** Answer with 400 Bad Request when no source has a value and there is no `default`. */
+  required?: boolean;
+  /** Converts the raw string. A throw, `NaN` or an invalid date answers with 400 Bad Request. */
+  parse?: (raw: string) => V;
+  /** Used when no source has a value. */
+  default?: V;
+}
+
+export type ExtractRules = Record<string, ExtractRule>;
+
+/**
+ * Matches an outgoing request's destination: a hostname (`*.example.com` also matches
+ * subdomains), an origin such as `https://api.example.com`, a RegExp tested against the
+ * full URL, or a predicate.
+ */
+export type DestinationRule = string | RegExp | ((url: URL) => boolean);
+
+/**
+ * Options for `installContextPropagation`.
+ */
+export interface PropagationOptions {
+  /** Maps context keys to the header they are sent as, e.g. `{ contextId: 'x-request-id' }`. */
+  headers: Record<string, string>;
+  /** Destinations that receive the headers. Without rules, no destination receives them. */
+  allow?: DestinationRule[];
+  /** Destinations that never receive the headers, even when allowed. */
+  deny?: DestinationRule[];
+  /** Also send the W3C trace headers of the current `trace` (see `getTraceHeaders`). */
+  trace?: boolean;
+  /** Patch the global `fetch`. Defaults to true. */
+  fetch?: boolean;
+  /** Patch `request` and `get` of `http` and `https`. Defaults to true. */
+  http?: boolean;
+}
+
+/**
+ * Options for `createContextWorker` and `forkWithContext`.
+ */
+export interface ContextWorkerOptions {
+  /** Context keys sent to the worker. Defaults to every stored key. */
+  keys?: string[];
+  /** Keys copied back into the caller's context once the worker's context is disposed. */
+  mergeBack?: string[];
+}
+
+/**
+ * The parts of a Koa `ctx` used by `koaContextMiddleware`.
+ */
+export interface KoaLikeContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  state: Record<string, unknown>;
+}
+
+/**
+ * The parts of a Fastify request and reply used by `fastifyContextHook`.
+ */
+export interface FastifyLikeRequest {
+  raw: IncomingMessage;
+}
+
+export interface FastifyLikeReply {
+  raw: ServerResponse;
+}
+
+/**
+ * Reserved keys understood by `contextMiddleware`.
+ */
+export interface ContextMiddlewareConfig extends Omit<
+  ContextConfig,
+  'session' | 'initialValues' | 'parent' | 'services'
+> {
+  session?: SessionOptions;
+  /** Defaults to a shared in-memory LRU store. */
+  store?: ContextStore;
+  /** Honour, generate and echo request IDs. `true` uses the defaults. */
+  requestId?: RequestIdOptions | boolean;
+  /** Parse `traceparent`, `tracestate` and `baggage` into the `trace` context key. */
+  trace?: boolean;
+  leakDetection?: LeakDetectionOptions;
+  /** Context values read from request headers, query parameters and cookies. */
+  extract?: ExtractRules;
+  /** Services available through `ctx.inject(token)`. */
+  services?: ServiceDefinition[] | ServiceContainer;
+  /** Resolve a tenant per request, with its own defaults, hooks and store namespace. */
+  tenant?: TenantOptions;
+}
+
+/**
+ * Options accepted by `contextMiddleware`. Reserved keys (see `ContextMiddlewareConfig`)
+ * configure the middleware; every other key is used as a default context value.
+ */
+export type ContextMiddlewareOptions = Record<string, AllowedValueTypes> &
+  ContextMiddlewareConfig;
 
 export type InferedContext<T extends Record<string, AllowedValueTypes>> = {
   [K in keyof T]: T[K];
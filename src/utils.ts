@@ -0,0 +1,90 @@
+import { IncomingMessage } from 'http';
+
+/**
+ * Reads a single cookie from the request's `Cookie` header without requiring cookie-parser.
+ */
+export const readCookie = (
+  req: IncomingMessage,
+  name: string
+): string | undefined => {
+  const header = req.headers?.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === name) {
+      const value = part.slice(separator + 1).trim();
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Reads a header as a single string, taking the first value of repeated headers.
+ */
+export const readHeader = (
+  req: IncomingMessage,
+  name: string
+): string | undefined => {
+  const value = req.headers?.[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Serializes a `Set-Cookie` value for an HttpOnly, SameSite=Lax cookie scoped to `/`.
+ */
+export const serializeCookie = (
+  name: string,
+  value: string,
+  options: { maxAge?: number } = {}
+) => {
+  let cookie = `${name}=${encodeURIComponent(
+    value
+  )}; Path=/; HttpOnly; SameSite=Lax`;
+  if (options.maxAge !== undefined) {
+    cookie += `; Max-Age=${Math.floor(options.maxAge / 1000)}`;
+  }
+  return cookie;
+};
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Copies `value`, masking the values of `keys` (lower-cased) at any depth.
+ */
+export const redactValue = (value: unknown, keys: Set<string>): unknown => {
+  if (keys.size === 0 || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, keys));
+  }
+  if (value instanceof Set) {
+    return new Set(Array.from(value, (item) => redactValue(item, keys)));
+  }
+  if (value instanceof Map) {
+    return new Map(
+      Array.from(value, ([key, item]) => [
+        key,
+        typeof key === 'string' && keys.has(key.toLowerCase())
+          ? REDACTED
+          : redactValue(item, keys),
+      ])
+    );
+  }
+  if (value instanceof Date || value instanceof Error) {
+    return value;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value)) {
+    result[key] = keys.has(key.toLowerCase())
+      ? REDACTED
+      : redactValue(nested, keys);
+  }
+  return result;
+};
@@ -0,0 +1,225 @@
+import { EventEmitter } from 'events';
+import { ChildProcess, fork, ForkOptions } from 'child_process';
+import {
+  isMainThread,
+  parentPort,
+  Worker,
+  WorkerOptions,
+  workerData,
+} from 'worker_threads';
+import MyContext from './ctx';
+import { asyncLocalStorage } from './context-storage';
+import { runInContext } from './run-in-context';
+import { decodeValue } from './serializer';
+import {
+  AllowedValueTypes,
+  AllowedValueTypesRecord,
+  ContextMiddlewareOptions,
+  ContextSnapshot,
+  ContextWorkerOptions,
+} from './types';
+
+/** `workerData` key carrying the caller's snapshot into a worker thread. */
+const SNAPSHOT_KEY = '__expressCtxSnapshot';
+/** Set in a forked child's environment when its first IPC message is a snapshot. */
+const FORK_ENV = 'EXPRESS_CTX_FORK';
+const SNAPSHOT_MESSAGE = 'express-ctx:snapshot';
+const CONTEXT_MESSAGE = 'express-ctx:context';
+
+interface ContextMessage {
+  type: typeof CONTEXT_MESSAGE | typeof SNAPSHOT_MESSAGE;
+  snapshot: ContextSnapshot;
+}
+
+const defaultOptions: ContextMiddlewareOptions = {};
+
+const isMessage = (
+  message: unknown,
+  type: ContextMessage['type']
+): message is ContextMessage =>
+  (message as ContextMessage | undefined)?.type === type;
+
+const pickEntries = (snapshot: ContextSnapshot, keys?: string[]) => {
+  const entries = Object.entries(snapshot.entries).filter(
+    ([key]) => !keys || keys.includes(key)
+  );
+  return { ...snapshot, entries: Object.fromEntries(entries) };
+};
+
+const sentSnapshot = (
+  context: MyContext<AllowedValueTypesRecord>,
+  keys?: string[]
+) => pickEntries(context.snapshot({ inherited: true }), keys);
+
+/**
+ * Returns the worker's `workerData` with the current context's snapshot added.
+ */
+const contextWorkerData = (
+  data: unknown,
+  context: MyContext<AllowedValueTypesRecord> | undefined,
+  keys?: string[]
+) => {
+  if (!context) return data;
+  if (
+    data !== undefined &&
+    (typeof data !== 'object' || data === null || Array.isArray(data))
+  ) {
+    throw new TypeError(
+      'createContextWorker needs workerData to be an object, to add the context to it'
+    );
+  }
+  return { ...(data as object), [SNAPSHOT_KEY]: sentSnapshot(context, keys) };
+};
+
+/**
+ * Copies the allowed keys of the worker's final snapshot into the caller's context.
+ */
+const listenForMergeBack = (
+  emitter: EventEmitter,
+  context: MyContext<AllowedValueTypesRecord> | undefined,
+  keys?: string[]
+) => {
+  if (!context || !keys?.length) return;
+  const listener = (message: unknown) => {
+    if (!isMessage(message, CONTEXT_MESSAGE)) return;
+    emitter.off('message', listener);
+    if (context.isDisposed) return;
+    const { entries } = pickEntries(message.snapshot, keys);
+    for (const [key, entry] of Object.entries(entries)) {
+      context.set(
+        key,
+        decodeValue(entry.value) as AllowedValueTypes,
+        entry.expiresAt === undefined
+          ? undefined
+          : Math.max(entry.expiresAt - Date.now(), 1)
+      );
+    }
+  };
+  emitter.on('message', listener);
+};
+
+/**
+ * Starts a worker thread that receives the current context. Inside the worker, wrap
+ * the work in `runInWorkerContext` so `useContext()` returns the restored context.
+ * Keys listed in `mergeBack` are copied back into the caller's context when the
+ * worker's context finishes. The snapshot is added to `workerData` under a reserved
+ * key, so `workerData`, if given, must be an object.
+ *
+ * @example
+ * app.post('/reports', (req, res) => {
+ *   const worker = createContextWorker(new URL('./report-worker.js', import.meta.url), {
+ *     keys: ['contextId', 'tenantId'],
+ *     mergeBack: ['rowCount'],
+ *   });
+ *   worker.once('exit', () => res.json({ rows: req.context.get('rowCount') }));
+ * });
+ *
+ * // report-worker.js
+ * await runInWorkerContext(async () => {
+ *   const tenantId = useContext()?.get('tenantId');
+ *   useContext()?.set('rowCount', await buildReport(tenantId));
+ * });
+ */
+export const createContextWorker = (
+  filename: string | URL,
+  options: WorkerOptions & ContextWorkerOptions = {}
+) => {
+  const { keys, mergeBack, ...workerOptions } = options;
+  const context = asyncLocalStorage.getStore();
+  const worker = new Worker(filename, {
+    ...workerOptions,
+    workerData: contextWorkerData(workerOptions.workerData, context, keys),
+  });
+  listenForMergeBack(worker, context, mergeBack);
+  return worker;
+};
+
+/**
+ * `child_process.fork` counterpart of `createContextWorker`. The snapshot is the first
+ * message sent over the IPC channel that `fork` opens, and merging back uses the same
+ * channel. Only a marker is added to the child's environment, never context values.
+ */
+export const forkWithContext = (
+  modulePath: string,
+  args: readonly string[] = [],
+  options: ForkOptions & ContextWorkerOptions = {}
+): ChildProcess => {
+  const { keys, mergeBack, ...forkOptions } = options;
+  const context = asyncLocalStorage.getStore();
+  if (!context) return fork(modulePath, args, forkOptions);
+  const child = fork(modulePath, args, {
+    ...forkOptions,
+    env: { ...(forkOptions.env ?? process.env), [FORK_ENV]: '1' },
+  });
+  child.send({ type: SNAPSHOT_MESSAGE, snapshot: sentSnapshot(context, keys) });
+  listenForMergeBack(child, context, mergeBack);
+  return child;
+};
+
+const defaultSend = (message: ContextMessage) => {
+  if (parentPort) {
+    parentPort.postMessage(message);
+  } else {
+    process.send?.(message);
+  }
+};
+
+/**
+ * Takes the snapshot sent by `createContextWorker` (from `workerData`) or
+ * `forkWithContext` (the first IPC message), if any. It is removed once read, so
+ * workers and processes started from here do not inherit it.
+ */
+const receiveSnapshot = async (): Promise<ContextSnapshot | undefined> => {
+  if (!isMainThread) {
+    const data = workerData as Record<string, unknown> | undefined;
+    const snapshot = data?.[SNAPSHOT_KEY] as ContextSnapshot | undefined;
+    if (snapshot) delete data?.[SNAPSHOT_KEY];
+    return snapshot;
+  }
+  if (process.env[FORK_ENV] === undefined || !process.send) return undefined;
+  delete process.env[FORK_ENV];
+  return new Promise((resolve) => {
+    const listener = (message: unknown) => {
+      if (!isMessage(message, SNAPSHOT_MESSAGE)) return;
+      process.off('message', listener);
+      resolve(message.snapshot);
+    };
+    process.on('message', listener);
+  });
+};
+
+/**
+ * Runs `fn` inside a worker thread or forked process with the context sent by
+ * `createContextWorker`/`forkWithContext` restored, then sends the final values back to
+ * the caller for `mergeBack`. Otherwise behaves like `runInContext`: `options` supply
+ * default values, hooks and store, and the context is disposed once `fn` finishes.
+ * Outside such a worker, `fn` runs in a new, empty context. Forked processes receive
+ * their snapshot asynchronously, so the result is always a promise.
+ *
+ * @param send - Delivers the final snapshot; defaults to `parentPort` or `process.send`
+ */
+export const runInWorkerContext = async <R>(
+  fn: () => R | Promise<R>,
+  options: ContextMiddlewareOptions = defaultOptions,
+  send: (message: ContextMessage) => void = defaultSend
+): Promise<R> => {
+  const snapshot = await receiveSnapshot();
+  if (!snapshot) return runInContext({}, fn, options);
+
+  const initialValues: AllowedValueTypesRecord = {};
+  for (const [key, entry] of Object.entries(snapshot.entries)) {
+    initialValues[key] = decodeValue(entry.value) as AllowedValueTypes;
+  }
+
+  return runInContext(
+    initialValues,
+    () => {
+      const context = asyncLocalStorage.getStore();
+      context?.onDispose(() =>
+        send({ type: CONTEXT_MESSAGE, snapshot: context.snapshot() })
+      );
+      return fn();
+    },
+    options
+  );
+};
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import http from 'http';
+import request from 'supertest';
+import { useContext } from '../src/context-middleware';
+import {
+  fastifyContextHook,
+  httpContextHandler,
+  koaContextMiddleware,
+} from '../src/adapters';
+import { KoaLikeContext } from '../src/types';
+
+describe('httpContextHandler', () => {
+  it('should run a node:http handler in its own context', async () => {
+    const onDispose = vi.fn();
+    const server = http.createServer(
+      httpContextHandler(
+        (req, res) => {
+          setTimeout(() => {
+            res.end(
+              JSON.stringify({
+                appName: useContext()?.get('appName'),
+                requestId: useContext()?.get('requestId'),
+              })
+            );
+          }, 5);
+        },
+        { appName: 'raw', requestId: true, hooks: { onDispose } }
+      )
+    );
+
+    const response = await request(server).get('/').set('x-request-id', 'abc');
+
+    expect(JSON.parse(response.text)).toEqual({
+      appName: 'raw',
+      requestId: 'abc',
+    });
+    expect(response.headers['x-request-id']).toBe('abc');
+    expect(onDispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should issue session cookies without Express', async () => {
+    const server = http.createServer(
+      httpContextHandler(
+        (req, res) => {
+          useContext()?.session?.set('visits', 1);
+          res.end();
+        },
+        { session: { cookie: 'sid', maxLifetime: 60000 } }
+      )
+    );
+
+    const response = await request(server).get('/');
+
+    expect(response.headers['set-cookie'][0]).toMatch(
+      /^sid=[\w-]+; Path=\/; HttpOnly; SameSite=Lax; Max-Age=60$/
+    );
+  });
+
+  it('should pass the raw request to the session resolver', async () => {
+    const server = http.createServer(
+      httpContextHandler(
+        (req, res) => {
+          const session = useContext()?.session;
+          session?.set('visits', Number(session.get('visits') ?? 0) + 1);
+          res.end(String(session?.get('visits')));
+        },
+        {
+          session: {
+            resolve: (req) => req.headers['x-sid'] as string | undefined,
+          },
+        }
+      )
+    );
+
+    await request(server).get('/').set('x-sid', 'ada');
+    const response = await request(server).get('/').set('x-sid', 'ada');
+
+    expect(response.text).toBe('2');
+  });
+});
+
+describe('koaContextMiddleware', () => {
+  const createKoaLikeServer = (
+    middleware: ReturnType<typeof koaContextMiddleware>,
+    handler: (ctx: KoaLikeContext) => Promise<void>
+  ) =>
+    http.createServer((req, res) => {
+      const ctx: KoaLikeContext = { req, res, state: {} };
+      middleware(ctx, () => handler(ctx)).catch(() => {
+        res.statusCode = 500;
+        res.end();
+      });
+    });
+
+  it('should share the context between ctx.state and useContext', async () => {
+    const server = createKoaLikeServer(
+      koaContextMiddleware({ appName: 'koa' }),
+      async (ctx) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        ctx.res.end(
+          JSON.stringify({
+            same: ctx.state.context === useContext(),
+            appName: useContext()?.get('appName'),
+          })
+        );
+      }
+    );
+
+    const response = await request(server).get('/');
+
+    expect(JSON.parse(response.text)).toEqual({ same: true, appName: 'koa' });
+  });
+
+  it('should report downstream errors to the onError hooks', async () => {
+    const onError = vi.fn();
+    const server = createKoaLikeServer(
+      koaContextMiddleware({ hooks: { onError } }),
+      async () => {
+        throw new Error('boom');
+      }
+    );
+
+    const response = await request(server).get('/');
+
+    expect(response.status).toBe(500);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'boom',
+      })
+    );
+  });
+});
+
+describe('fastifyContextHook', () => {
+  it('should run the rest of the request in the context', async () => {
+    const hook = fastifyContextHook({ appName: 'fastify' });
+    const server = http.createServer((req, res) => {
+      hook({ raw: req }, { raw: res }, () => {
+        setTimeout(() => res.end(useContext()?.get('appName')), 5);
+      });
+    });
+
+    const response = await request(server).get('/');
+
+    expect(response.text).toBe('fastify');
+  });
+});
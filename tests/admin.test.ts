@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import express, { Express, Request } from 'express';
+import request from 'supertest';
+import { contextMiddleware } from '../src/context-middleware';
+import { MemoryContextStore } from '../src/context-store';
+import { contextAdminRouter } from '../src/admin';
+
+describe('contextAdminRouter', () => {
+  let app: Express;
+  let store: MemoryContextStore;
+  let guard: Mock<[Request], boolean | Promise<boolean>>;
+  let onDispose: Mock;
+
+  beforeEach(() => {
+    store = new MemoryContextStore();
+    guard = vi.fn<[Request], boolean | Promise<boolean>>(() => true);
+    onDispose = vi.fn();
+    app = express();
+    app.use(
+      '/admin',
+      contextAdminRouter({ guard, store, redact: ['token', 'password'] })
+    );
+    app.use(
+      contextMiddleware({
+        store,
+        session: {
+          resolve: (req) => req.headers['x-session-id'] as string | undefined,
+        },
+        hooks: { onDispose },
+      })
+    );
+    app.get('/login', (req, res) => {
+      req.context.session?.set('token', 'secret');
+      req.context.session?.set('profile', { name: 'Ada', password: 'hunter2' });
+      req.context.session?.set(
+        'settings',
+        new Map<string, unknown>([
+          ['theme', 'dark'],
+          ['password', 'x'],
+        ])
+      );
+      req.context.session?.set(
+        'roles',
+        new Set([{ role: 'admin', token: 't' }])
+      );
+      req.context.session?.set('since', new Date('2024-01-01T00:00:00.000Z'));
+      res.sendStatus(204);
+    });
+  });
+
+  it('should reject requests the guard denies', async () => {
+    guard.mockReturnValue(false);
+
+    const response = await request(app).get('/admin');
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should pass the request to an async guard', async () => {
+    guard.mockImplementation(
+      async (req) => req.get('authorization') === 'Bearer admin'
+    );
+
+    expect((await request(app).get('/admin')).status).toBe(403);
+    const response = await request(app)
+      .get('/admin')
+      .set('authorization', 'Bearer admin');
+
+    expect(response.status).toBe(200);
+    expect(guard).toHaveBeenCalledTimes(2);
+  });
+
+  it('should list live contexts with age, key count and size', async () => {
+    await request(app).get('/login').set('x-session-id', 's1');
+
+    const response = await request(app).get('/admin');
+
+    expect(response.body.count).toBe(1);
+    const [session] = response.body.contexts;
+    expect(session).toMatchObject({ id: 'session:s1', session: true, keys: 6 });
+    expect(session.age).toBeGreaterThanOrEqual(0);
+    expect(session.size).toBeGreaterThan(0);
+    expect((await request(app).get('/admin?limit=0')).body).toEqual({
+      count: 1,
+      contexts: [],
+    });
+  });
+
+  it('should dump a context with redaction applied', async () => {
+    await request(app).get('/login').set('x-session-id', 's1');
+
+    const response = await request(app).get('/admin/session:s1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.entries).toEqual({
+      sessionId: { value: 's1' },
+      token: { value: '[REDACTED]' },
+      profile: { value: { name: 'Ada', password: '[REDACTED]' } },
+      settings: { value: { theme: 'dark', password: '[REDACTED]' } },
+      roles: { value: [{ role: 'admin', token: '[REDACTED]' }] },
+      since: { value: '2024-01-01T00:00:00.000Z' },
+    });
+    expect((await request(app).get('/admin/session:missing')).status).toBe(404);
+  });
+
+  it('should dispose and evict a context', async () => {
+    await request(app).get('/login').set('x-session-id', 's1');
+    const session = store.get('session:s1');
+
+    const response = await request(app).delete('/admin/session:s1');
+
+    expect(response.status).toBe(204);
+    expect(store.get('session:s1')).toBeUndefined();
+    expect(session?.isDisposed).toBe(true);
+    expect(onDispose).toHaveBeenCalledWith(session);
+    expect((await request(app).delete('/admin/session:s1')).status).toBe(404);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import MyContext from '../src/ctx';
+import { contextMiddleware, useContext } from '../src/context-middleware';
+import { createToken, ServiceContainer } from '../src/container';
+
+const Config = createToken<{ region: string }>('Config');
+const Repository = createToken<{ id: number }>('Repository');
+const Clock = createToken<{ id: number }>('Clock');
+
+describe('ServiceContainer', () => {
+  let nextId = 0;
+  const createServices = (release = vi.fn()) =>
+    new ServiceContainer([
+      { token: Config, scope: 'singleton', factory: () => ({ region: 'eu' }) },
+      {
+        token: Repository,
+        factory: () => ({ id: ++nextId }),
+        dispose: release,
+      },
+      { token: Clock, scope: 'transient', factory: () => ({ id: ++nextId }) },
+    ]);
+
+  it('should cache instances according to their scope', () => {
+    const services = createServices();
+    const first = new MyContext({}, { services });
+    const second = new MyContext({}, { services });
+
+    expect(first.inject(Config)).toBe(second.inject(Config));
+    expect(first.inject(Repository)).toBe(first.inject(Repository));
+    expect(first.fork().inject(Repository)).toBe(first.inject(Repository));
+    expect(first.inject(Repository)).not.toBe(second.inject(Repository));
+    expect(first.inject(Clock)).not.toBe(first.inject(Clock));
+  });
+
+  it('should dispose request-scoped instances when the response finishes', async () => {
+    const release = vi.fn();
+    const app = express();
+    app.use(contextMiddleware({ services: createServices(release) }));
+    app.get('/', (req, res) => {
+      res.json(useContext()?.inject(Repository));
+    });
+
+    const response = await request(app).get('/');
+
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(release).toHaveBeenCalledWith(response.body);
+  });
+
+  it('should reject unknown tokens and circular dependencies', () => {
+    const A = createToken<unknown>('A');
+    const B = createToken<unknown>('B');
+    const ctx = new MyContext(
+      {},
+      {
+        services: new ServiceContainer([
+          { token: A, factory: (c) => c.inject(B) },
+          { token: B, factory: (c) => c.inject(A) },
+        ]),
+      }
+    );
+
+    expect(() => ctx.inject(Config)).toThrow(
+      'No service registered for "Config"'
+    );
+    expect(() => ctx.inject(A)).toThrow(
+      'Circular service dependency: A -> B -> A'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+import MyContext from '../src/ctx';
+import { FileContextStore, MemoryContextStore } from '../src/context-store';
+import { contextMiddleware } from '../src/context-middleware';
+
+describe('MemoryContextStore', () => {
+  it('should evict the least recently used entry past maxEntries', () => {
+    const onEvict = vi.fn();
+    const store = new MemoryContextStore({ maxEntries: 2, onEvict });
+    const a = new MyContext();
+    store.set('a', a);
+    store.set('b', new MyContext());
+    store.touch('a');
+    store.set('c', new MyContext());
+
+    expect(store.get('a')).toBe(a);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.size).toBe(2);
+    expect(onEvict).toHaveBeenCalledWith('b', expect.any(MyContext));
+  });
+
+  it('should list and delete entries', () => {
+    const store = new MemoryContextStore();
+    store.set('a', new MyContext());
+    store.set('b', new MyContext());
+    store.delete('a');
+
+    expect(Array.from(store.entries()).map(([id]) => id)).toEqual(['b']);
+  });
+});
+
+describe('FileContextStore', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'express-ctx-'));
+  const filePath = path.join(dir, 'contexts.json');
+
+  afterEach(() => {
+    fs.rmSync(filePath, { force: true });
+  });
+
+  it('should restore persisted contexts from disk', () => {
+    const store = new FileContextStore({ path: filePath });
+    const context = new MyContext();
+    context.set('cart', ['apple']);
+    context.set('token', 'abc', 60000);
+    store.set('session:1', context);
+    store.flush();
+
+    const snapshot = new FileContextStore({ path: filePath }).takeSnapshot(
+      'session:1'
+    );
+    const restored = snapshot && MyContext.fromSnapshot(snapshot);
+    expect(restored?.get('cart')).toEqual(['apple']);
+    expect(restored?.get('token')).toBe('abc');
+    expect(restored?.createdAt).toBe(context.createdAt);
+  });
+
+  it('should only write session contexts by default', () => {
+    const store = new FileContextStore({ path: filePath });
+    store.set('request-id', new MyContext());
+    store.set('session:1', new MyContext());
+    store.flush();
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    expect(Object.keys(data)).toEqual(['session:1']);
+  });
+
+  it('should remove deleted contexts from disk', () => {
+    const store = new FileContextStore({ path: filePath });
+    store.set('session:1', new MyContext());
+    store.flush();
+    store.delete('session:1');
+    store.flush();
+
+    expect(
+      new FileContextStore({ path: filePath }).takeSnapshot('session:1')
+    ).toBeUndefined();
+  });
+
+  it('should keep session values across a restart of the middleware', async () => {
+    const createApp = () => {
+      const store = new FileContextStore({ path: filePath });
+      const app = express();
+      app.use(
+        contextMiddleware({
+          session: {
+            resolve: (req) => req.headers['x-session-id'] as string | undefined,
+          },
+          store,
+        })
+      );
+      app.get('/visit', (req, res) => {
+        const visits = (req.context.session?.get('visits') ?? 0) + 1;
+        req.context.session?.set('visits', visits);
+        res.json({ visits });
+      });
+      return { app, store };
+    };
+
+    const first = createApp();
+    await request(first.app).get('/visit').set('x-session-id', 'persisted');
+    first.store.flush();
+    const response = await request(createApp().app)
+      .get('/visit')
+      .set('x-session-id', 'persisted');
+
+    expect(response.body.visits).toBe(2);
+  });
+
+  it('should rebuild restored sessions with the middleware config', async () => {
+    const onSet = vi.fn();
+    const createApp = () => {
+      const store = new FileContextStore({ path: filePath });
+      const app = express();
+      app.use(
+        contextMiddleware({
+          session: {
+            resolve: (req) => req.headers['x-session-id'] as string | undefined,
+          },
+          defaultTTL: 60000,
+          hooks: { onSet },
+          store,
+        })
+      );
+      app.get('/visit', (req, res) => {
+        req.context.session?.set('lastVisit', 'now');
+        res.json(req.context.session?.snapshot());
+      });
+      return { app, store };
+    };
+
+    const first = createApp();
+    await request(first.app).get('/visit').set('x-session-id', 'persisted');
+    first.store.flush();
+    onSet.mockClear();
+    const second = createApp();
+    const response = await request(second.app)
+      .get('/visit')
+      .set('x-session-id', 'persisted');
+
+    expect(response.body.entries.lastVisit.expiresAt).toEqual(
+      expect.any(Number)
+    );
+    expect(onSet).toHaveBeenCalledWith('lastVisit', 'now');
+    expect(second.store.takeSnapshot('session:persisted')).toBeUndefined();
+  });
+
+  it('should not drop persisted sessions when request contexts fill the cache', () => {
+    const store = new FileContextStore({ path: filePath, maxEntries: 2 });
+    const session = new MyContext();
+    store.set('session:a', session);
+    store.set('request:1', new MyContext());
+    store.set('request:2', new MyContext());
+    store.set('request:3', new MyContext());
+    store.flush();
+
+    expect(store.get('session:a')).toBe(session);
+    expect(store.get('request:1')).toBeUndefined();
+    expect(store.size).toBe(3);
+    expect(
+      new FileContextStore({ path: filePath }).takeSnapshot('session:a')
+    ).toBeDefined();
+  });
+
+  it('should batch writes until flushDelay has passed', () => {
+    vi.useFakeTimers();
+    const writeFileSync = vi.spyOn(fs, 'writeFileSync');
+    const store = new FileContextStore({ path: filePath, flushDelay: 500 });
+    store.set('session:1', new MyContext());
+    store.set('session:2', new MyContext());
+    store.delete('session:1');
+
+    expect(writeFileSync).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(500);
+
+    expect(writeFileSync).toHaveBeenCalledTimes(1);
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    expect(Object.keys(data)).toEqual(['session:2']);
+    writeFileSync.mockRestore();
+    vi.useRealTimers();
+  });
+});
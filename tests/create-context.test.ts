@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import MyContext from '../src/ctx';
+import { createContext } from '../src/create-context';
+import { ContextValidationError } from '../src/errors';
+
+type AppContext = { userId: string; role: 'admin' | 'user'; retries: number };
+
+describe('createContext', () => {
+  it('should provide a typed middleware and accessors', async () => {
+    const appContext = createContext<AppContext>({ retries: 0 });
+    const app = express();
+    app.use(appContext.middleware);
+    app.get('/', (req, res) => {
+      appContext.fromRequest(req).set('userId', 'u1');
+      res.json({
+        userId: appContext.useContext()?.get('userId'),
+        retries: appContext.useContext()?.get('retries'),
+      });
+    });
+
+    const response = await request(app).get('/');
+    expect(response.body).toEqual({ userId: 'u1', retries: 0 });
+  });
+
+  it('should reject values failing a predicate validator', () => {
+    const ctx = new MyContext<AppContext>(
+      {},
+      {
+        validators: {
+          userId: (value) => typeof value === 'string' && value.length > 0,
+        },
+      }
+    );
+    const onError = vi.fn();
+    ctx.hook('onError', onError);
+
+    ctx.set('userId', '');
+    expect(ctx.get('userId')).toBeUndefined();
+    expect(onError).toHaveBeenCalledWith(expect.any(ContextValidationError));
+    expect(onError.mock.calls[0][0].key).toBe('userId');
+
+    ctx.set('userId', 'u1');
+    expect(ctx.get('userId')).toBe('u1');
+  });
+
+  it('should store the output of parse validators', () => {
+    const ctx = new MyContext<AppContext>(
+      {},
+      { validators: { retries: { parse: (value) => Number(value) } } }
+    );
+    ctx.set('retries', '3' as unknown as number);
+    expect(ctx.get('retries')).toBe(3);
+  });
+
+  it('should report parse errors through onError', () => {
+    const roles = ['admin', 'user'];
+    const ctx = new MyContext<AppContext>(
+      {},
+      {
+        validators: {
+          role: {
+            parse: (value) => {
+              if (!roles.includes(value as string)) {
+                throw new Error('Unknown role');
+              }
+              return value as AppContext['role'];
+            },
+          },
+        },
+      }
+    );
+    const onError = vi.fn();
+    const afterSet = vi.fn();
+    ctx.hook('onError', onError);
+    ctx.hook('afterSet', afterSet);
+
+    ctx.set('role', 'owner' as AppContext['role']);
+
+    expect(ctx.get('role')).toBeUndefined();
+    expect(afterSet).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0][0].message).toBe(
+      'Invalid value for context key "role": Unknown role'
+    );
+  });
+});
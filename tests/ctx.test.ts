@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import MyContext from '../src/ctx';
+import { ContextSealedError } from '../src/errors';
 
 describe('MyContext', () => {
   it('should set and get values', () => {
@@ -55,4 +56,367 @@ describe('MyContext', () => {
     expect(ctx.get('key1')).toBe('value1');
     expect(ctx.get('key2')).toBe('value2');
   });
+
+  it('should expire values after their ttl', () => {
+    vi.useFakeTimers();
+    const ctx = new MyContext<{ token: string }>();
+    const onExpire = vi.fn();
+    ctx.hook('onExpire', onExpire);
+
+    ctx.set('token', 'abc', 1000);
+    vi.advanceTimersByTime(999);
+    expect(ctx.get('token')).toBe('abc');
+
+    vi.advanceTimersByTime(1);
+    expect(ctx.get('token')).toBeUndefined();
+    expect(onExpire).toHaveBeenCalledWith('token', 'abc');
+    vi.useRealTimers();
+  });
+
+  it('should fall back to default values once a value expires', () => {
+    vi.useFakeTimers();
+    const ctx = new MyContext<{ role: string }>(
+      { role: 'guest' },
+      { defaultTTL: 500 }
+    );
+    ctx.set('role', 'admin');
+    expect(ctx.get('role')).toBe('admin');
+
+    vi.advanceTimersByTime(500);
+    expect(ctx.get('role')).toBe('guest');
+    vi.useRealTimers();
+  });
+
+  it('should transform values in beforeSet hooks by priority', () => {
+    const ctx = new MyContext<{ email: string }>();
+    ctx.hook('beforeSet', (key, value) => `${value}!`);
+    ctx.hook('beforeSet', (key, value) => String(value).trim(), {
+      priority: 10,
+    });
+
+    ctx.set('email', '  ada@example.com ');
+    expect(ctx.get('email')).toBe('ada@example.com!');
+  });
+
+  it('should reject values when a beforeSet hook throws', () => {
+    const ctx = new MyContext<{ role: string }>();
+    const onError = vi.fn();
+    const afterSet = vi.fn();
+    ctx.hook('onError', onError);
+    ctx.hook('afterSet', afterSet);
+    ctx.hook('beforeSet', (key, value) => {
+      if (key === 'role' && value === 'root') throw new Error('Not allowed');
+    });
+
+    ctx.set('role', 'root');
+
+    expect(ctx.get('role')).toBeUndefined();
+    expect(afterSet).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(new Error('Not allowed'));
+  });
+
+  it('should let beforeGet hooks supply a value', () => {
+    const ctx = new MyContext<{ locale: string }>();
+    ctx.set('locale', 'en');
+    ctx.hook('beforeGet', (key) => (key === 'locale' ? 'fr' : undefined));
+
+    expect(ctx.get('locale')).toBe('fr');
+  });
+
+  it('should return an unsubscribe function from hook', () => {
+    const ctx = new MyContext();
+    const afterSet = vi.fn();
+    const unsubscribe = ctx.hook('afterSet', afterSet);
+
+    ctx.set('a', 1);
+    unsubscribe();
+    ctx.set('b', 2);
+
+    expect(afterSet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should await async hooks with setAsync and getAsync', async () => {
+    const ctx = new MyContext<{ user: { id: string; name?: string } }>();
+    const order: string[] = [];
+    ctx.hook('beforeSet', async (key, value) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      order.push('beforeSet');
+      return { ...value, name: 'Ada' };
+    });
+    ctx.hook('afterSet', async () => {
+      order.push('afterSet');
+    });
+    ctx.hook('beforeGet', async (key) =>
+      key === 'user' ? undefined : 'unused'
+    );
+
+    await ctx.setAsync('user', { id: '1' });
+
+    expect(order).toEqual(['beforeSet', 'afterSet']);
+    expect(await ctx.getAsync('user')).toEqual({ id: '1', name: 'Ada' });
+  });
+
+  it('should reject sync writes that need async beforeSet hooks', () => {
+    const ctx = new MyContext();
+    const onError = vi.fn();
+    ctx.hook('onError', onError);
+    ctx.hook('beforeSet', async (key, value) => value);
+
+    ctx.set('key', 'value');
+
+    expect(ctx.get('key')).toBeUndefined();
+    expect(onError.mock.calls[0][0].message).toContain('requires setAsync()');
+  });
+
+  it('should read through to the parent from a fork and keep writes local', () => {
+    const parent = new MyContext<Record<string, string>>({ theme: 'light' });
+    parent.set('userId', 'u1');
+
+    const child = parent.fork({ itemId: 'i1' });
+    child.set('userId', 'u2');
+
+    expect(child.get('itemId')).toBe('i1');
+    expect(child.get('theme')).toBe('light');
+    expect(child.get('userId')).toBe('u2');
+    expect(parent.get('userId')).toBe('u1');
+    expect(parent.get('itemId')).toBeUndefined();
+
+    child.clear('userId');
+    expect(child.get('userId')).toBe('u1');
+    expect(child.parent).toBe(parent);
+  });
+
+  it('should restore a context from a snapshot', () => {
+    vi.useFakeTimers();
+    const ctx = new MyContext({ theme: 'light' });
+    ctx.set('since', new Date('2024-01-01T00:00:00.000Z'));
+    ctx.set('roles', new Set(['admin']));
+    ctx.set('limits', new Map([['api', 10n]]));
+    ctx.set('token', 'abc', 1000);
+
+    const restored = MyContext.fromSnapshot(JSON.stringify(ctx));
+
+    expect(restored.get('since')).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(restored.get('roles')).toEqual(new Set(['admin']));
+    expect(restored.get('limits')).toEqual(new Map([['api', 10n]]));
+    expect(restored.get('theme')).toBeUndefined();
+    expect(restored.createdAt).toBe(ctx.createdAt);
+
+    vi.advanceTimersByTime(1001);
+    expect(restored.get('token')).toBeUndefined();
+    vi.useRealTimers();
+  });
+
+  it('should reject writes and clears of sealed keys through onError', () => {
+    const onError = vi.fn();
+    const ctx = new MyContext(
+      {},
+      { initialValues: { contextId: 'c1' }, hooks: { onError } }
+    );
+    ctx.setReadonly('userId', 'u1');
+    ctx.set('theme', 'dark');
+
+    ctx.set('userId', 'u2');
+    ctx.clear('contextId');
+    ctx.clear('*');
+
+    expect(ctx.get('userId')).toBe('u1');
+    expect(ctx.get('contextId')).toBe('c1');
+    expect(ctx.get('theme')).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(ContextSealedError);
+    expect(ctx.fork().isSealed('userId')).toBe(true);
+  });
+
+  it('should not let fork overrides replace sealed keys', () => {
+    const onError = vi.fn();
+    const ctx = new MyContext(
+      {},
+      { initialValues: { contextId: 'c1' }, hooks: { onError } }
+    );
+    ctx.setReadonly('userId', 'alice');
+
+    const child = ctx.fork({
+      userId: 'mallory',
+      contextId: 'spoof',
+      itemId: 'i1',
+    });
+
+    expect(child.get('userId')).toBe('alice');
+    expect(child.get('contextId')).toBe('c1');
+    expect(child.get('itemId')).toBe('i1');
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(ContextSealedError);
+
+    const strict = new MyContext({}, { strict: true });
+    strict.setReadonly('userId', 'alice');
+    expect(() => strict.fork({ userId: 'mallory' })).toThrow(
+      ContextSealedError
+    );
+  });
+
+  it('should throw from a frozen context in strict mode', () => {
+    const ctx = new MyContext({}, { strict: true });
+    ctx.set('role', 'admin');
+    ctx.freeze();
+
+    expect(() => ctx.set('role', 'user')).toThrow('Context is frozen');
+    expect(() => ctx.clear('role')).toThrow(ContextSealedError);
+    expect(ctx.get('role')).toBe('admin');
+  });
+
+  it('should notify watchers of changes to their key only', () => {
+    vi.useFakeTimers();
+    const ctx = new MyContext({ role: 'guest' });
+    const watcher = vi.fn();
+    const stop = ctx.watch('role', watcher);
+
+    ctx.set('other', 1);
+    ctx.set('role', 'admin');
+    ctx.set('role', 'admin');
+    ctx.clear('role');
+    ctx.set('role', 'editor', 1000);
+    vi.advanceTimersByTime(1001);
+    ctx.get('role');
+    stop();
+    ctx.set('role', 'owner');
+
+    expect(watcher.mock.calls).toEqual([
+      ['guest', 'admin'],
+      ['admin', 'guest'],
+      ['guest', 'editor'],
+      ['editor', 'guest'],
+    ]);
+    vi.useRealTimers();
+  });
+
+  it('should notify watchers of a computed key when a dependency changes', () => {
+    vi.useFakeTimers();
+    const ctx = new MyContext({ role: 'guest' });
+    ctx.computed('isAdmin', ['role'], (role) => role === 'admin');
+    ctx.computed('label', ['isAdmin'], (isAdmin) =>
+      isAdmin ? 'Admin' : 'User'
+    );
+    const isAdmin = vi.fn();
+    const label = vi.fn();
+    ctx.watch('isAdmin', isAdmin);
+    ctx.watch('label', label);
+
+    ctx.set('role', 'editor');
+    ctx.set('role', 'admin');
+    ctx.clear('role');
+    ctx.set('role', 'admin', 1000);
+    vi.advanceTimersByTime(1001);
+    ctx.get('role');
+
+    expect(isAdmin.mock.calls).toEqual([
+      [false, true],
+      [true, false],
+      [false, true],
+      [true, false],
+    ]);
+    expect(label.mock.calls).toEqual([
+      ['User', 'Admin'],
+      ['Admin', 'User'],
+      ['User', 'Admin'],
+      ['Admin', 'User'],
+    ]);
+    vi.useRealTimers();
+  });
+
+  it('should recompute computed values lazily when dependencies change', () => {
+    const ctx = new MyContext();
+    const isAdmin = vi.fn((role) => role === 'admin');
+    ctx.computed('isAdmin', ['userRole'], isAdmin);
+
+    ctx.set('userRole', 'admin');
+    expect(isAdmin).not.toHaveBeenCalled();
+    expect(ctx.get('isAdmin')).toBe(true);
+    expect(ctx.get('isAdmin')).toBe(true);
+    expect(isAdmin).toHaveBeenCalledTimes(1);
+
+    ctx.set('userRole', 'user');
+    expect(ctx.get('isAdmin')).toBe(false);
+    ctx.clear('isAdmin');
+    expect(ctx.get('isAdmin')).toBe(false);
+    expect(isAdmin).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject writes to computed keys', () => {
+    const onError = vi.fn();
+    const ctx = new MyContext({}, { hooks: { onError } });
+    ctx.computed(
+      'total',
+      ['price', 'quantity'],
+      (price, quantity) => Number(price) * Number(quantity)
+    );
+    ctx.set('price', 3);
+    ctx.set('quantity', 2);
+
+    ctx.set('total', 100);
+
+    expect(ctx.get('total')).toBe(6);
+    expect(onError.mock.calls[0][0].message).toContain('is computed');
+  });
+
+  it('should run a provider once for concurrent and later resolves', async () => {
+    const loadUser = vi.fn(async (ctx: MyContext<Record<string, string>>) => ({
+      id: ctx.get('userId'),
+    }));
+    const ctx = new MyContext(
+      {},
+      { initialValues: { userId: 'u1' }, providers: { user: loadUser } }
+    );
+
+    const [first, second] = await Promise.all([
+      ctx.resolve('user'),
+      ctx.resolve('user'),
+    ]);
+    const third = await ctx.fork().resolve('user');
+
+    expect(first).toEqual({ id: 'u1' });
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(ctx.get('user')).toBe(first);
+    expect(loadUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report provider failures and retry on the next resolve', async () => {
+    const onError = vi.fn();
+    const loadTenant = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('db down'))
+      .mockResolvedValueOnce({ id: 't1' });
+    const ctx = new MyContext(
+      {},
+      { hooks: { onError }, providers: { tenant: loadTenant } }
+    );
+
+    expect(await ctx.resolve('tenant')).toBeUndefined();
+    expect(onError.mock.calls[0][0].message).toBe('db down');
+    expect(await ctx.resolve('tenant')).toEqual({ id: 't1' });
+  });
+
+  it('should keep an undefined provider result until the key is cleared', async () => {
+    const loadUser = vi.fn(async () => undefined);
+    const ctx = new MyContext({}, { providers: { user: loadUser } });
+
+    expect(await ctx.resolve('user')).toBeUndefined();
+    expect(await ctx.resolve('user')).toBeUndefined();
+    expect(loadUser).toHaveBeenCalledTimes(1);
+
+    ctx.clear('user');
+    await ctx.resolve('user');
+    expect(loadUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw sealed-key errors from resolve in strict mode', async () => {
+    const ctx = new MyContext(
+      {},
+      { strict: true, providers: { user: async () => ({ id: 'u1' }) } }
+    );
+    ctx.freeze();
+
+    await expect(ctx.resolve('user')).rejects.toThrow(ContextSealedError);
+  });
 });
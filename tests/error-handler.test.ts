@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { contextMiddleware } from '../src/context-middleware';
+import { contextErrorHandler, ContextualError } from '../src/error-handler';
+
+describe('contextErrorHandler', () => {
+  let app: Express;
+  let onError: Mock;
+
+  // Each test mounts contextErrorHandler with its own options after these routes
+  beforeEach(() => {
+    onError = vi.fn();
+    app = express();
+    app.use(contextMiddleware({ requestId: true, hooks: { onError } }));
+    app.use((req, res, next) => {
+      req.context.set('userId', 'u1');
+      next();
+    });
+    app.get('/missing', () => {
+      throw Object.assign(new Error('Order not found'), { status: 404 });
+    });
+    app.get('/boom', () => {
+      throw new Error('Database password rejected');
+    });
+    app.get('/streamed', (req, res, next) => {
+      res.write('partial');
+      next(new Error('late failure'));
+    });
+  });
+
+  it('should render problem+json with the request ID and context keys', async () => {
+    app.use(contextErrorHandler({ keys: ['contextId', 'userId'] }));
+
+    const response = await request(app)
+      .get('/missing')
+      .set('x-request-id', 'req-1');
+
+    expect(response.status).toBe(404);
+    expect(response.headers['content-type']).toContain(
+      'application/problem+json'
+    );
+    expect(JSON.parse(response.text)).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Order not found',
+      instance: '/missing',
+      requestId: 'req-1',
+      context: { userId: 'u1' },
+    });
+  });
+
+  it('should hide 5xx details when exposeDetail is off', async () => {
+    app.use(contextErrorHandler({ exposeDetail: false }));
+
+    const response = await request(app).get('/boom');
+    const body = JSON.parse(response.text);
+
+    expect(response.status).toBe(500);
+    expect(body.title).toBe('Internal Server Error');
+    expect(body.detail).toBeUndefined();
+    expect(body.requestId).toEqual(expect.any(String));
+  });
+
+  it('should enrich the error and forward it to onError hooks', async () => {
+    app.use(contextErrorHandler({ keys: ['userId'] }));
+
+    await request(app).get('/missing').set('x-request-id', 'req-2');
+
+    const error: ContextualError = onError.mock.calls[0][0];
+    expect(error.message).toBe('Order not found');
+    expect(error.contextId).toBe('req-2');
+    expect(error.context).toEqual({ userId: 'u1' });
+  });
+
+  it('should support a custom problem type', async () => {
+    app.use(
+      contextErrorHandler({
+        type: (error, status) => `https://errors.example.com/${status}`,
+      })
+    );
+
+    const response = await request(app).get('/missing');
+
+    expect(JSON.parse(response.text).type).toBe(
+      'https://errors.example.com/404'
+    );
+  });
+
+  it('should defer to Express once headers are sent', async () => {
+    app.use(contextErrorHandler());
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Express's final handler closes the connection of a half-sent response
+    await expect(request(app).get('/streamed')).rejects.toThrow();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import http from 'http';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { contextMiddleware } from '../src/context-middleware';
+import { contextErrorHandler } from '../src/error-handler';
+import { httpContextHandler } from '../src/adapters';
+import { ExtractRules } from '../src/types';
+
+const extract: ExtractRules = {
+  tenantId: { header: 'x-tenant', required: true, parse: Number },
+  locale: { cookie: 'lang', default: 'en' },
+  page: { query: 'page', parse: Number },
+};
+
+describe('extract', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(contextMiddleware({ requestId: true, extract }));
+    app.get('/', (req, res) => {
+      res.json({
+        tenantId: req.context.get('tenantId'),
+        locale: req.context.get('locale'),
+        page: req.context.get('page'),
+      });
+    });
+    app.use(contextErrorHandler());
+  });
+
+  it('should copy header, query and cookie values into the context', async () => {
+    const response = await request(app)
+      .get('/?page=2')
+      .set('x-tenant', '42')
+      .set('Cookie', 'lang=fr');
+
+    expect(response.body).toEqual({ tenantId: 42, locale: 'fr', page: 2 });
+  });
+
+  it('should fall back to defaults for missing optional values', async () => {
+    const response = await request(app).get('/').set('x-tenant', '7');
+
+    expect(response.body).toEqual({ tenantId: 7, locale: 'en' });
+  });
+
+  it('should answer 400 when a required value is missing', async () => {
+    const response = await request(app).get('/').set('x-request-id', 'req-1');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({
+      title: 'Bad Request',
+      requestId: 'req-1',
+      detail: 'Invalid request: "tenantId" is required (header "x-tenant")',
+    });
+  });
+
+  it('should answer 400 when a value cannot be parsed', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        extract: {
+          since: {
+            query: 'since',
+            parse: (raw) => {
+              const date = new Date(raw);
+              if (Number.isNaN(date.getTime())) throw new Error('Not a date');
+              return date;
+            },
+          },
+        },
+      })
+    );
+    app.get('/', (req, res) => res.sendStatus(204));
+
+    const response = await request(app).get('/?since=yesterday');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should answer 400 when parse returns NaN', async () => {
+    const response = await request(app).get('/').set('x-tenant', 'abc');
+
+    expect(response.status).toBe(400);
+    expect(response.body.detail).toBe(
+      'Invalid request: "tenantId" could not be parsed: Invalid value "abc"'
+    );
+  });
+
+  it('should answer 400 from the node:http adapter without calling the handler', async () => {
+    const server = http.createServer(
+      httpContextHandler((req, res) => res.end('handled'), { extract })
+    );
+
+    const response = await request(server).get('/');
+
+    expect(response.status).toBe(400);
+    expect(response.text).toContain('"tenantId" is required');
+  });
+});
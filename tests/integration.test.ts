@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
-import express, { Express } from 'express';
+import express, { Express, RequestHandler } from 'express';
 import request from 'supertest';
 import { contextMiddleware, useContext } from '../src/context-middleware';
 import MyContext from '../src/ctx';
@@ -247,3 +247,149 @@ describe('Integration tests', () => {
     expect(memoryIncrease).toBeLessThan(50 * 1024 * 1024);
   }, 30000); // Increased timeout to 30 seconds
 });
+
+describe('Session contexts', () => {
+  const countVisit: RequestHandler = (req, res) => {
+    const visits = (req.context.session?.get('visits') ?? 0) + 1;
+    req.context.session?.set('visits', visits);
+    req.context.set('requestOnly', true);
+    res.json({
+      visits,
+      sessionId: req.context.get('sessionId'),
+      leaked: req.context.session?.get('requestOnly'),
+    });
+  };
+
+  it('should reuse the session context for the same session header', async () => {
+    const app = express();
+    app.use(contextMiddleware({ session: { header: 'x-session-id' } }));
+    app.get('/visit', countVisit);
+
+    const first = await request(app).get('/visit');
+    const sessionId = first.headers['x-session-id'];
+    const response = await request(app)
+      .get('/visit')
+      .set('x-session-id', sessionId);
+
+    expect(response.body.visits).toBe(2);
+    expect(response.body.sessionId).toBe(sessionId);
+    expect(response.body.leaked).toBeUndefined();
+  });
+
+  it('should replace session IDs chosen by the client', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({ session: { header: 'x-session-id', cookie: 'sid' } })
+    );
+    app.get('/visit', countVisit);
+
+    const planted = await request(app).get('/visit').set('x-session-id', 'abc');
+    const fromCookie = await request(app)
+      .get('/visit')
+      .set('Cookie', 'sid=abc');
+    const retried = await request(app).get('/visit').set('x-session-id', 'abc');
+
+    expect(planted.body.sessionId).not.toBe('abc');
+    expect(planted.headers['x-session-id']).toBe(planted.body.sessionId);
+    expect(fromCookie.body.sessionId).not.toBe('abc');
+    expect(fromCookie.headers['set-cookie'][0]).toContain(
+      `sid=${fromCookie.body.sessionId}`
+    );
+    expect(retried.body.visits).toBe(1);
+  });
+
+  it('should keep sessions isolated from each other', async () => {
+    const app = express();
+    app.use(contextMiddleware({ session: { header: 'x-session-id' } }));
+    app.get('/visit', countVisit);
+
+    const first = await request(app).get('/visit');
+    await request(app)
+      .get('/visit')
+      .set('x-session-id', first.headers['x-session-id']);
+    const response = await request(app).get('/visit');
+
+    expect(response.body.visits).toBe(1);
+    expect(response.body.sessionId).not.toBe(first.body.sessionId);
+  });
+
+  it('should resolve the session from a cookie and issue one when missing', async () => {
+    const app = express();
+    app.use(contextMiddleware({ session: { cookie: 'sid' } }));
+    app.get('/visit', countVisit);
+
+    const first = await request(app).get('/visit');
+    const cookie = first.headers['set-cookie'][0];
+    expect(cookie).toContain(`sid=${first.body.sessionId}`);
+
+    const second = await request(app)
+      .get('/visit')
+      .set('Cookie', `theme=dark; sid=${first.body.sessionId}`);
+    expect(second.body.visits).toBe(2);
+  });
+
+  it('should use a custom resolver', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        session: {
+          resolve: (req) =>
+            new URL(req.url ?? '/', 'http://localhost').searchParams.get(
+              'user'
+            ) ?? undefined,
+        },
+      })
+    );
+    app.get('/visit', countVisit);
+
+    await request(app).get('/visit?user=ada');
+    const response = await request(app).get('/visit?user=ada');
+
+    expect(response.body.sessionId).toBe('ada');
+    expect(response.body.visits).toBe(2);
+  });
+
+  it('should evict idle sessions', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        session: { header: 'x-session-id', idleTimeout: 50 },
+      })
+    );
+    app.get('/visit', countVisit);
+
+    const first = await request(app).get('/visit');
+    const sessionId = first.headers['x-session-id'];
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    const response = await request(app)
+      .get('/visit')
+      .set('x-session-id', sessionId);
+
+    expect(response.body.visits).toBe(1);
+    expect(response.body.sessionId).not.toBe(sessionId);
+  });
+
+  it('should evict sessions past their max lifetime', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        session: { header: 'x-session-id', maxLifetime: 50 },
+      })
+    );
+    app.get('/visit', countVisit);
+
+    const first = await request(app).get('/visit');
+    const sessionId = first.headers['x-session-id'];
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const second = await request(app)
+      .get('/visit')
+      .set('x-session-id', sessionId);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const response = await request(app)
+      .get('/visit')
+      .set('x-session-id', sessionId);
+
+    expect(second.body.visits).toBe(2);
+    expect(response.body.visits).toBe(1);
+  });
+});
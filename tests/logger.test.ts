@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { contextMiddleware } from '../src/context-middleware';
+import { createLogger, pinoSink, streamSink, winstonSink } from '../src/logger';
+import { LogEntry } from '../src/types';
+
+const runInRequest = (fn: (req: Request) => void) => {
+  const req = { headers: {} } as Request;
+  const res = { on: vi.fn().mockReturnThis() } as unknown as Response;
+  contextMiddleware()(req, res, () => fn(req));
+};
+
+describe('createLogger', () => {
+  const collect = () => {
+    const entries: LogEntry[] = [];
+    return {
+      entries,
+      sink: { write: (entry: LogEntry) => entries.push(entry) },
+    };
+  };
+
+  it('should merge configured context keys into each entry', () => {
+    const { entries, sink } = collect();
+    const logger = createLogger({ sink, contextKeys: ['contextId', 'userId'] });
+
+    runInRequest((req) => {
+      req.context.set('userId', 'u1');
+      logger.info('hello', { extra: true });
+      expect(entries[0]).toMatchObject({
+        level: 'info',
+        message: 'hello',
+        contextId: req.context.get('contextId'),
+        userId: 'u1',
+        extra: true,
+      });
+    });
+  });
+
+  it('should log without context outside a request', () => {
+    const { entries, sink } = collect();
+    createLogger({ sink }).warn('startup');
+    expect(entries[0].contextId).toBeUndefined();
+    expect(entries[0].time).toEqual(expect.any(String));
+  });
+
+  it('should drop entries below the configured level', () => {
+    const { entries, sink } = collect();
+    const logger = createLogger({ sink, level: 'warn' });
+    logger.debug('debug');
+    logger.info('info');
+    logger.error('error');
+    expect(entries.map((entry) => entry.level)).toEqual(['error']);
+  });
+
+  it('should redact sensitive keys at any depth', () => {
+    const { entries, sink } = collect();
+    const logger = createLogger({
+      sink,
+      redact: ['password', 'Authorization'],
+    });
+    logger.info('login', {
+      user: { name: 'ada', password: 'secret' },
+      headers: [{ authorization: 'Bearer x' }],
+    });
+    expect(entries[0].user).toEqual({ name: 'ada', password: '[REDACTED]' });
+    expect(entries[0].headers).toEqual([{ authorization: '[REDACTED]' }]);
+  });
+
+  it('should add child bindings', () => {
+    const { entries, sink } = collect();
+    createLogger({ sink, bindings: { service: 'api' } })
+      .child({ component: 'audit' })
+      .info('event');
+    expect(entries[0]).toMatchObject({ service: 'api', component: 'audit' });
+  });
+
+  it('should write JSON lines and pretty output to the standard streams', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    const entry: LogEntry = {
+      level: 'info',
+      time: '2024-01-01T00:00:00.000Z',
+      message: 'hi',
+      userId: 'u1',
+    };
+
+    streamSink('json').write(entry);
+    streamSink('pretty').write({ ...entry, level: 'error' });
+
+    expect(JSON.parse(String(stdout.mock.calls[0][0]))).toEqual(entry);
+    expect(stderr).toHaveBeenCalledWith(
+      '2024-01-01T00:00:00.000Z ERROR hi userId="u1"\n'
+    );
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  it('should adapt pino and winston style loggers', () => {
+    const target = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const entry: LogEntry = {
+      level: 'warn',
+      time: '2024-01-01T00:00:00.000Z',
+      message: 'slow',
+      ms: 900,
+    };
+
+    pinoSink(target).write(entry);
+    winstonSink(target).write(entry);
+
+    expect(target.warn).toHaveBeenNthCalledWith(1, { ms: 900 }, 'slow');
+    expect(target.warn).toHaveBeenNthCalledWith(2, 'slow', { ms: 900 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { contextMiddleware } from '../src/context-middleware';
+import { MemoryContextStore } from '../src/context-store';
+import { PrometheusMetrics, metricsHandler } from '../src/metrics';
+
+describe('PrometheusMetrics', () => {
+  it('should render counters, gauges and histograms', () => {
+    const metrics = new PrometheusMetrics();
+    const requests = metrics.counter('requests_total', 'Requests.');
+    const inFlight = metrics.gauge('in_flight', 'In flight.');
+    const latency = metrics.histogram('latency_seconds', 'Latency.', [0.1, 1]);
+
+    requests.inc({ route: '/a' });
+    requests.inc({ route: '/a' }, 2);
+    requests.inc({ route: 'say "hi"\n' });
+    inFlight.inc(3);
+    inFlight.dec();
+    latency.observe(0.05);
+    latency.observe(0.5);
+    latency.observe(5);
+
+    expect(metrics.render()).toBe(
+      [
+        '# HELP requests_total Requests.',
+        '# TYPE requests_total counter',
+        'requests_total{route="/a"} 3',
+        'requests_total{route="say \\"hi\\"\\n"} 1',
+        '# HELP in_flight In flight.',
+        '# TYPE in_flight gauge',
+        'in_flight 2',
+        '# HELP latency_seconds Latency.',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        'latency_seconds_sum 5.55',
+        'latency_seconds_count 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should return the same instrument for a repeated name', () => {
+    const metrics = new PrometheusMetrics();
+    metrics.counter('jobs_total', 'Jobs.').inc();
+    metrics.counter('jobs_total', 'Jobs.').inc();
+
+    expect(metrics.render()).toContain('jobs_total 2');
+    expect(() => metrics.gauge('jobs_total', 'Jobs.')).toThrow(TypeError);
+  });
+});
+
+describe('context metrics', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    const metrics = new PrometheusMetrics();
+    const store = new MemoryContextStore();
+    app = express();
+    app.get('/metrics', metricsHandler(metrics));
+    app.use(
+      contextMiddleware({
+        appName: 'shop',
+        metrics,
+        store,
+        session: {
+          resolve: (req) => req.headers['x-session-id'] as string | undefined,
+        },
+        hooks: {
+          onSet: (key) => {
+            if (key === 'fail') throw new Error('hook failed');
+          },
+        },
+      })
+    );
+    app.get('/', (req, res) => {
+      req.context.set('userId', 'u1');
+      req.context.set('fail', true);
+      res.json({
+        userId: req.context.get('userId'),
+        appName: req.context.get('appName'),
+        missing: req.context.get('missing') ?? null,
+      });
+    });
+  });
+
+  it('should count context lifecycle, reads and hook errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await request(app).get('/').set('x-session-id', 's1');
+    await request(app).get('/').set('x-session-id', 's1');
+
+    const response = await request(app).get('/metrics');
+
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.headers['content-type']).toContain('version=0.0.4');
+    const text = response.text;
+    expect(text).toContain('express_ctx_contexts_created_total 2');
+    expect(text).toContain('express_ctx_contexts_disposed_total 2');
+    expect(text).toContain('express_ctx_contexts_active 0');
+    expect(text).toContain('express_ctx_context_lifetime_seconds_count 2');
+    expect(text).toContain('express_ctx_get_total{result="hit"} 2');
+    expect(text).toContain('express_ctx_get_total{result="default"} 2');
+    expect(text).toContain('express_ctx_get_total{result="miss"} 2');
+    expect(text).toContain('express_ctx_hook_errors_total{event="onSet"} 2');
+    // only the session outlives its request
+    expect(text).toContain('express_ctx_store_size 1');
+    vi.restoreAllMocks();
+  });
+});
@@ -4,7 +4,12 @@ import MyContext from '../src/ctx';
 import { Request, Response, NextFunction } from 'express';
 import express from 'express';
 import request from 'supertest';
-import { contextMiddleware as contextMiddlewareImport } from '../src/context-middleware';
+import {
+  contextMiddleware as contextMiddlewareImport,
+  runWithContext,
+} from '../src/context-middleware';
+import { EventEmitter } from 'events';
+import { MemoryContextStore } from '../src/context-store';
 
 describe('contextMiddleware', () => {
   let req: Partial<Request>;
@@ -69,6 +74,18 @@ describe('contextMiddleware', () => {
     });
   });
 
+  it('should treat defaultTTL as configuration rather than a default value', () => {
+    vi.useFakeTimers();
+    const middleware = contextMiddleware({ defaultTTL: 1000, theme: 'dark' });
+    middleware(req as Request, res as Response, () => {
+      expect(req.context?.get('defaultTTL')).toBeUndefined();
+      req.context?.set('theme', 'light');
+      vi.advanceTimersByTime(1000);
+      expect(req.context?.get('theme')).toBe('dark');
+    });
+    vi.useRealTimers();
+  });
+
   it('should allow getting and setting context values within request lifecycle', () => {
     const middleware = contextMiddleware();
     middleware(req as Request, res as Response, () => {
@@ -220,3 +237,326 @@ describe('Context Middleware Cleanup', () => {
     );
   });
 });
+
+describe('Global hooks', () => {
+  it('should register middleware hooks on every context', async () => {
+    const afterSet = vi.fn();
+    const beforeGet = [vi.fn(), vi.fn()];
+    const app = express();
+    app.use(contextMiddleware({ hooks: { afterSet, beforeGet } }));
+    app.get('/', (req, res) => {
+      req.context.set('key', 'value');
+      res.json({ key: req.context.get('key') });
+    });
+
+    await request(app).get('/');
+    await request(app).get('/');
+
+    expect(afterSet).toHaveBeenCalledWith('key', 'value');
+    expect(afterSet).toHaveBeenCalledWith('contextId', expect.any(String));
+    expect(beforeGet[0]).toHaveBeenCalledTimes(2);
+    expect(beforeGet[1]).toHaveBeenCalledTimes(2);
+  });
+
+  it('should write initial values alongside async beforeSet hooks', async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.use(
+      contextMiddleware({
+        requestId: true,
+        extract: { locale: { header: 'accept-language' } },
+        hooks: {
+          beforeSet: async (key, value) =>
+            typeof value === 'string' ? value.toUpperCase() : value,
+          onError,
+        },
+      })
+    );
+    app.get('/', async (req, res) => {
+      await req.context.setAsync('name', 'ada');
+      res.json({
+        contextId: req.context.get('contextId'),
+        locale: req.context.get('locale'),
+        name: req.context.get('name'),
+      });
+    });
+
+    const response = await request(app)
+      .get('/')
+      .set('x-request-id', 'req-1')
+      .set('accept-language', 'en');
+
+    expect(response.body).toEqual({
+      contextId: 'req-1',
+      locale: 'en',
+      name: 'ADA',
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should fire onCreate and onDispose once per request', async () => {
+    const created: string[] = [];
+    const disposed: string[] = [];
+    const app = express();
+    app.use(
+      contextMiddleware({
+        hooks: {
+          onCreate: (ctx) => {
+            created.push(ctx.get('contextId'));
+          },
+          onDispose: (ctx) => {
+            disposed.push(ctx.get('contextId'));
+          },
+        },
+      })
+    );
+    app.get('/', (req, res) => {
+      res.json({ contextId: req.context.get('contextId') });
+    });
+
+    const response = await request(app).get('/');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(created).toEqual([response.body.contextId]);
+    expect(disposed).toEqual([response.body.contextId]);
+  });
+
+  it('should apply middleware hooks to session contexts', async () => {
+    const onCreate = vi.fn();
+    const app = express();
+    app.use(
+      contextMiddleware({
+        session: { header: 'x-session-id' },
+        hooks: { onCreate },
+      })
+    );
+    app.get('/', (req, res) => res.sendStatus(204));
+
+    const first = await request(app).get('/');
+    await request(app)
+      .get('/')
+      .set('x-session-id', first.headers['x-session-id']);
+
+    // two request contexts and one session context
+    expect(onCreate).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('Context teardown', () => {
+  const runRequest = (
+    middleware: ReturnType<typeof contextMiddleware>,
+    headers: Request['headers'] = {}
+  ) => {
+    const req = { headers } as Request;
+    const res = new EventEmitter();
+    middleware(req, res as unknown as Response, () => {});
+    return { context: req.context, res };
+  };
+
+  it('should dispose the context exactly once across finish, close and error', () => {
+    const onDispose = vi.fn();
+    const { context, res } = runRequest(
+      contextMiddleware({ hooks: { onDispose } })
+    );
+    const release = vi.fn();
+    context.onDispose(release);
+    context.set('key', 'value');
+
+    res.emit('close');
+    res.emit('finish');
+    res.emit('error', new Error('socket hang up'));
+
+    expect(onDispose).toHaveBeenCalledTimes(1);
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(context.isDisposed).toBe(true);
+    expect(context.get('key')).toBeUndefined();
+  });
+
+  it('should remove contexts from the store when the client disconnects', () => {
+    const store = new MemoryContextStore();
+    const { context, res } = runRequest(contextMiddleware({ store }));
+    const stored = () => Array.from(store.entries(), ([, value]) => value);
+    expect(stored()).toContain(context);
+
+    res.emit('close');
+
+    expect(stored()).not.toContain(context);
+  });
+
+  it('should not let an inbound request ID replace a stored session', async () => {
+    const store = new MemoryContextStore();
+    const app = express();
+    app.use(
+      contextMiddleware({
+        store,
+        session: {
+          resolve: (req) => req.headers['x-session-id'] as string | undefined,
+        },
+        requestId: true,
+      })
+    );
+    app.get('/cart', (req, res) => {
+      req.context.session?.set('cart', req.get('x-cart') ?? null);
+      res.json({ cart: req.context.session?.get('cart') ?? null });
+    });
+    app.get('/whoami', (req, res) => {
+      res.json({
+        contextId: req.context.get('contextId'),
+        requestId: req.context.get('requestId'),
+      });
+    });
+
+    await request(app)
+      .get('/cart')
+      .set('x-session-id', 'victim')
+      .set('x-cart', 'victim-cart');
+    const session = store.get('session:victim');
+    const attack = await request(app)
+      .get('/whoami')
+      .set('x-request-id', 'session:victim');
+
+    expect(attack.body).toEqual({
+      contextId: 'session:victim',
+      requestId: 'session:victim',
+    });
+    expect(store.get('session:victim')).toBe(session);
+    expect(session?.get('cart')).toBe('victim-cart');
+  });
+
+  it('should keep concurrent requests with the same inbound ID apart', () => {
+    const store = new MemoryContextStore();
+    const middleware = contextMiddleware({
+      store,
+      requestId: { responseHeader: false },
+    });
+    const headers = { 'x-request-id': 'shared-id' };
+    const first = runRequest(middleware, headers);
+    const second = runRequest(middleware, headers);
+
+    first.res.emit('finish');
+
+    const stored = Array.from(store.entries(), ([, value]) => value);
+    expect(stored).toEqual([second.context]);
+    expect(second.context.get('contextId')).toBe('shared-id');
+  });
+
+  it('should clear every value on dispose rather than a key named after the id', async () => {
+    let captured: MyContext<Record<string, unknown>> | undefined;
+    const app = express();
+    app.use(contextMiddlewareImport());
+    app.get('/', (req, res) => {
+      captured = req.context;
+      req.context.set('user', { id: '1' });
+      res.sendStatus(204);
+    });
+
+    await request(app).get('/');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(captured?.get('user')).toBeUndefined();
+    expect(captured?.get('contextId')).toBeUndefined();
+  });
+
+  it('should report contexts that outlive the configured age', () => {
+    vi.useFakeTimers();
+    const onLeak = vi.fn();
+    const store = new MemoryContextStore();
+    const middleware = contextMiddleware({
+      store,
+      leakDetection: { maxAge: 1000, onLeak },
+    });
+    const leaked = runRequest(middleware);
+    const finished = runRequest(middleware);
+    finished.res.emit('finish');
+
+    vi.advanceTimersByTime(2000);
+    vi.advanceTimersByTime(2000);
+
+    expect(onLeak).toHaveBeenCalledTimes(1);
+    expect(onLeak).toHaveBeenCalledWith(
+      leaked.context.get('contextId'),
+      leaked.context,
+      expect.any(Number)
+    );
+    vi.useRealTimers();
+  });
+});
+
+describe('runWithContext', () => {
+  it('should scope overrides to a child of the request context', async () => {
+    const app = express();
+    app.use(contextMiddlewareImport());
+    app.get('/', async (req, res) => {
+      req.context.set('userId', 'u1');
+      const seen = await Promise.all(
+        ['a', 'b'].map((itemId) =>
+          runWithContext({ itemId }, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            const ctx = useContext()!;
+            return { itemId: ctx.get('itemId'), userId: ctx.get('userId') };
+          })
+        )
+      );
+      res.json({ seen, requestItemId: req.context.get('itemId') ?? null });
+    });
+
+    const response = await request(app).get('/');
+
+    expect(response.body).toEqual({
+      seen: [
+        { itemId: 'a', userId: 'u1' },
+        { itemId: 'b', userId: 'u1' },
+      ],
+      requestItemId: null,
+    });
+  });
+
+  it('should dispose the child once the callback settles', async () => {
+    const release = vi.fn();
+    const result = await runWithContext({ jobId: 'j1' }, async () => {
+      useContext()?.onDispose(release);
+      return useContext()?.get('jobId');
+    });
+
+    expect(result).toBe('j1');
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(useContext()).toBeUndefined();
+  });
+
+  it('should protect the contextId from later middleware', async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.use(contextMiddlewareImport({ hooks: { onError } }));
+    app.use((req, res, next) => {
+      req.context.set('contextId', 'spoofed');
+      next();
+    });
+    app.get('/', (req, res) => res.send(req.context.get('contextId')));
+
+    const response = await request(app).get('/');
+
+    expect(response.text).not.toBe('spoofed');
+    expect(onError.mock.calls[0][0].message).toBe(
+      'Context key "contextId" is read-only'
+    );
+  });
+
+  it('should share provider results between middleware of one request', async () => {
+    const loadUser = vi.fn(async () => ({ name: 'Ada' }));
+    const app = express();
+    app.use(contextMiddlewareImport({ providers: { user: loadUser } }));
+    app.use(async (req, res, next) => {
+      await req.context.resolve('user');
+      next();
+    });
+    app.get('/', async (req, res) => {
+      res.json(await req.context.resolve('user'));
+    });
+
+    await request(app).get('/');
+    const response = await request(app).get('/');
+
+    expect(response.body).toEqual({ name: 'Ada' });
+    expect(loadUser).toHaveBeenCalledTimes(2);
+  });
+});
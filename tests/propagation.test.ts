@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { installContextPropagation } from '../src/propagation';
+import { runInContext } from '../src/run-in-context';
+
+describe('installContextPropagation', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let uninstall: (() => void) | undefined;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.end(JSON.stringify(req.headers));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  afterEach(() => {
+    uninstall?.();
+    uninstall = undefined;
+  });
+
+  const httpGet = (url: string, headers: http.OutgoingHttpHeaders = {}) =>
+    new Promise<Record<string, string>>((resolve, reject) => {
+      http
+        .get(url, { headers }, (res) => {
+          let body = '';
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve(JSON.parse(body)));
+        })
+        .on('error', reject);
+    });
+
+  const values = { contextId: 'req-1', tenantId: 't1' };
+  const headers = { contextId: 'x-request-id', tenantId: 'x-tenant' };
+
+  it('should add mapped context keys to http requests', async () => {
+    uninstall = installContextPropagation({ headers, allow: ['127.0.0.1'] });
+
+    const received = await runInContext(values, () => httpGet(baseUrl));
+
+    expect(received['x-request-id']).toBe('req-1');
+    expect(received['x-tenant']).toBe('t1');
+  });
+
+  it('should add mapped context keys to fetch calls', async () => {
+    uninstall = installContextPropagation({ headers, allow: [baseUrl] });
+
+    const received = await runInContext(values, async () => {
+      const response = await fetch(`${baseUrl}/items`, {
+        headers: { 'X-Tenant': 'explicit' },
+      });
+      return response.json();
+    });
+
+    expect(received['x-request-id']).toBe('req-1');
+    expect(received['x-tenant']).toBe('explicit');
+  });
+
+  it('should not send headers to denied or unlisted destinations', async () => {
+    uninstall = installContextPropagation({
+      headers,
+      allow: ['127.0.0.1'],
+      deny: ['127.0.0.1'],
+    });
+    const denied = await runInContext(values, () => httpGet(baseUrl));
+
+    uninstall = installContextPropagation({
+      headers,
+      allow: ['*.internal.example.com'],
+    });
+    const unlisted = await runInContext(values, () => httpGet(baseUrl));
+
+    expect(denied['x-request-id']).toBeUndefined();
+    expect(unlisted['x-request-id']).toBeUndefined();
+  });
+
+  it('should not send headers anywhere without allow rules', async () => {
+    uninstall = installContextPropagation({ headers });
+
+    const received = await runInContext(values, async () => {
+      const response = await fetch(`${baseUrl}/items`);
+      return { fetch: await response.json(), http: await httpGet(baseUrl) };
+    });
+
+    expect(received.fetch['x-request-id']).toBeUndefined();
+    expect(received.http['x-request-id']).toBeUndefined();
+  });
+
+  it('should leave requests outside a context and after uninstalling alone', async () => {
+    uninstall = installContextPropagation({ headers, allow: ['127.0.0.1'] });
+    const outside = await httpGet(baseUrl);
+    uninstall();
+    const afterUninstall = await runInContext(values, () => httpGet(baseUrl));
+
+    expect(outside['x-request-id']).toBeUndefined();
+    expect(afterUninstall['x-request-id']).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import express, { RequestHandler } from 'express';
+import request from 'supertest';
+import { contextMiddleware, useRequestId } from '../src/context-middleware';
+import { nanoid, traceIdFromTraceparent, ulid } from '../src/request-id';
+
+const respondWithIds: RequestHandler = (req, res) => {
+  res.json({
+    contextId: req.context.get('contextId'),
+    requestId: useRequestId(),
+  });
+};
+
+describe('Request IDs', () => {
+  it('should honour a valid inbound X-Request-Id and echo it back', async () => {
+    const app = express();
+    app.use(contextMiddleware({ requestId: true }));
+    app.get('/', respondWithIds);
+
+    const response = await request(app).get('/').set('X-Request-Id', 'abc-123');
+
+    expect(response.body).toEqual({
+      contextId: 'abc-123',
+      requestId: 'abc-123',
+    });
+    expect(response.headers['x-request-id']).toBe('abc-123');
+  });
+
+  it('should replace invalid inbound IDs with a generated one', async () => {
+    const app = express();
+    app.use(contextMiddleware({ requestId: true }));
+    app.get('/', respondWithIds);
+
+    const response = await request(app)
+      .get('/')
+      .set('X-Request-Id', 'bad id <script>');
+
+    expect(response.body.requestId).not.toBe('bad id <script>');
+    expect(response.body.requestId).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+
+  it('should fall back to the traceparent trace-id', async () => {
+    const app = express();
+    app.use(contextMiddleware({ requestId: { traceparent: true } }));
+    app.get('/', respondWithIds);
+
+    const response = await request(app)
+      .get('/')
+      .set(
+        'traceparent',
+        '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+      );
+
+    expect(response.body.requestId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+  });
+
+  it('should use the configured generator and response header', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        requestId: {
+          headers: [],
+          generator: () => 'custom-id',
+          responseHeader: 'x-correlation-id',
+        },
+      })
+    );
+    app.get('/', respondWithIds);
+
+    const response = await request(app).get('/').set('X-Request-Id', 'ignored');
+
+    expect(response.body.requestId).toBe('custom-id');
+    expect(response.headers['x-correlation-id']).toBe('custom-id');
+    expect(response.headers['x-request-id']).toBeUndefined();
+  });
+
+  it('should support custom validation', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        requestId: { validate: (id) => id.startsWith('req_') },
+      })
+    );
+    app.get('/', respondWithIds);
+
+    const accepted = await request(app).get('/').set('X-Request-Id', 'req_1');
+    const rejected = await request(app).get('/').set('X-Request-Id', 'other');
+
+    expect(accepted.body.requestId).toBe('req_1');
+    expect(rejected.body.requestId).not.toBe('other');
+  });
+
+  it('should generate well-formed ULIDs and nanoids', () => {
+    expect(ulid()).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    expect(ulid(0).slice(0, 10)).toBe('0000000000');
+    expect(nanoid()).toMatch(/^[\w-]{21}$/);
+  });
+
+  it('should reject malformed traceparent headers', () => {
+    expect(traceIdFromTraceparent('garbage')).toBeUndefined();
+    expect(
+      traceIdFromTraceparent(
+        '00-00000000000000000000000000000000-00f067aa0ba902b7-01'
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { useContext } from '../src/context-middleware';
+import { MemoryContextStore } from '../src/context-store';
+import { bindContext, runInContext, withContext } from '../src/run-in-context';
+
+describe('runInContext', () => {
+  it('should make the context available to code called from fn', () => {
+    const result = runInContext({ tenantId: 't1' }, () => ({
+      tenantId: useContext()?.get('tenantId'),
+      contextId: useContext()?.get('contextId'),
+    }));
+
+    expect(result.tenantId).toBe('t1');
+    expect(result.contextId).toEqual(expect.any(String));
+    expect(useContext()).toBeUndefined();
+  });
+
+  it('should run the configured lifecycle hooks and store', async () => {
+    const onCreate = vi.fn();
+    const onDispose = vi.fn();
+    const store = new MemoryContextStore();
+    const options = { region: 'eu', store, hooks: { onCreate, onDispose } };
+
+    const value = await runInContext(
+      { contextId: 'job-1' },
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        expect(Array.from(store.entries(), ([, value]) => value)).toEqual([
+          useContext(),
+        ]);
+        return useContext()?.get('region');
+      },
+      options
+    );
+
+    expect(value).toBe('eu');
+    expect(onCreate).toHaveBeenCalledTimes(1);
+    expect(onDispose).toHaveBeenCalledTimes(1);
+    expect(Array.from(store.entries())).toEqual([]);
+  });
+
+  it('should report failures to onError and rethrow them', async () => {
+    const onError = vi.fn();
+    const options = { hooks: { onError } };
+
+    await expect(
+      runInContext(
+        {},
+        async () => {
+          throw new Error('job failed');
+        },
+        options
+      )
+    ).rejects.toThrow('job failed');
+    expect(() =>
+      runInContext(
+        {},
+        () => {
+          throw new Error('sync failure');
+        },
+        options
+      )
+    ).toThrow('sync failure');
+
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('withContext', () => {
+  it('should run each call in a new context', async () => {
+    const handler = withContext(
+      (id: number) => {
+        useContext()?.set('jobId', id);
+        return [useContext()?.get('jobId'), useContext()?.get('contextId')];
+      },
+      { queue: 'emails' }
+    );
+
+    const [first, second] = [handler(1), handler(2)];
+
+    expect(first[0]).toBe(1);
+    expect(second[0]).toBe(2);
+    expect(first[1]).not.toBe(second[1]);
+  });
+});
+
+describe('bindContext', () => {
+  it('should restore the context in callbacks that lose the async chain', async () => {
+    const emitter = new EventEmitter();
+    const seen: unknown[] = [];
+    let finish!: () => void;
+
+    const job = runInContext({ userId: 'u1' }, async () => {
+      emitter.on(
+        'bound',
+        bindContext(() => seen.push(useContext()?.get('userId')))
+      );
+      emitter.on('unbound', () => seen.push(useContext()?.get('userId')));
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+    });
+    // emitted from outside the job's async chain
+    emitter.emit('bound');
+    emitter.emit('unbound');
+    finish();
+    await job;
+
+    expect(seen).toEqual(['u1', undefined]);
+  });
+
+  it('should return the function unchanged outside a context', () => {
+    const fn = () => 1;
+    expect(bindContext(fn)).toBe(fn);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { deserialize, serialize } from '../src/serializer';
+
+describe('serialize', () => {
+  it('should round-trip values plain JSON loses', () => {
+    const value = {
+      at: new Date('2024-01-01T00:00:00.000Z'),
+      tags: new Set(['a', 'b']),
+      counts: new Map<unknown, unknown>([
+        ['x', 1n],
+        [{ id: 1 }, [new Date(0)]],
+      ]),
+      big: 2n ** 64n,
+      nested: { list: [1, undefined, Infinity, NaN], missing: undefined },
+    };
+
+    expect(deserialize(serialize(value))).toEqual(value);
+  });
+
+  it('should keep plain objects that use the tag key', () => {
+    const value = { $type: 'Date', value: 'not a date' };
+
+    expect(deserialize(serialize(value))).toEqual(value);
+  });
+
+  it('should reject circular structures', () => {
+    const value: Record<string, unknown> = {};
+    value.self = value;
+
+    expect(() => serialize(value)).toThrow(TypeError);
+  });
+});
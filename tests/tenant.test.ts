@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IncomingMessage } from 'http';
+import express, { RequestHandler } from 'express';
+import request from 'supertest';
+import { contextMiddleware } from '../src/context-middleware';
+import { MemoryContextStore } from '../src/context-store';
+import { resolveTenantId, useTenant } from '../src/tenant';
+import { createToken } from '../src/container';
+
+const countVisit: RequestHandler = (req, res) => {
+  req.context.set('tenantId', 'spoofed');
+  req.context.session?.set(
+    'visits',
+    (req.context.session.get('visits') ?? 0) + 1
+  );
+  res.json({
+    tenant: useTenant(),
+    plan: req.context.get('plan'),
+    visits: req.context.session?.get('visits'),
+  });
+};
+
+describe('tenant', () => {
+  it('should apply the tenant defaults and hooks', async () => {
+    const onCreate = vi.fn();
+    const app = express();
+    app.use(
+      contextMiddleware({
+        plan: 'free',
+        tenant: {
+          header: 'x-tenant',
+          tenants: {
+            acme: { defaults: { plan: 'enterprise' }, hooks: { onCreate } },
+          },
+        },
+      })
+    );
+    app.get('/', countVisit);
+
+    const acme = await request(app).get('/').set('x-tenant', 'acme');
+    const other = await request(app).get('/').set('x-tenant', 'globex');
+
+    expect(acme.body).toMatchObject({ tenant: 'acme', plan: 'enterprise' });
+    expect(other.body).toMatchObject({ tenant: 'globex', plan: 'free' });
+    expect(onCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep sessions apart per tenant', async () => {
+    const store = new MemoryContextStore();
+    const app = express();
+    app.use(
+      contextMiddleware({
+        store,
+        session: {
+          resolve: (req) => req.headers['x-session-id'] as string | undefined,
+        },
+        tenant: { header: 'x-tenant' },
+      })
+    );
+    app.get('/', countVisit);
+    const visit = (tenant: string) =>
+      request(app).get('/').set('x-tenant', tenant).set('x-session-id', 's1');
+
+    await visit('acme');
+    const acme = await visit('acme');
+    const globex = await visit('globex');
+
+    expect(acme.body.visits).toBe(2);
+    expect(globex.body.visits).toBe(1);
+    expect(Array.from(store.entries(), ([key]) => key).sort()).toEqual([
+      'tenant/acme/session:s1',
+      'tenant/globex/session:s1',
+    ]);
+  });
+
+  it('should answer 400 for missing or unknown tenants when required', async () => {
+    const app = express();
+    app.use(
+      contextMiddleware({
+        tenant: { header: 'x-tenant', required: true, tenants: { acme: {} } },
+      })
+    );
+    app.get('/', countVisit);
+
+    const missing = await request(app).get('/');
+    const unknown = await request(app).get('/').set('x-tenant', 'globex');
+
+    expect(missing.status).toBe(400);
+    expect(unknown.status).toBe(400);
+  });
+
+  it('should resolve tenants from the host and path', () => {
+    const req = (url: string, host: string) =>
+      ({ url, headers: { host } }) as IncomingMessage;
+
+    expect(
+      resolveTenantId(req('/', 'acme.example.com:3000'), { host: true })
+    ).toBe('acme');
+    expect(
+      resolveTenantId(req('/', 'example.com'), { host: true })
+    ).toBeUndefined();
+    expect(
+      resolveTenantId(req('/acme/orders?x=1', 'example.com'), { path: true })
+    ).toBe('acme');
+  });
+
+  it('should share singleton services with requests outside a tenant', async () => {
+    const Clock = createToken<{ id: number }>('Clock');
+    let created = 0;
+    const app = express();
+    app.use(
+      contextMiddleware({
+        tenant: { header: 'x-tenant' },
+        services: [
+          {
+            token: Clock,
+            scope: 'singleton',
+            factory: () => ({ id: ++created }),
+          },
+        ],
+      })
+    );
+    app.get('/', (req, res) => res.json(req.context.inject(Clock)));
+
+    const tenant = await request(app).get('/').set('x-tenant', 'acme');
+    const shared = await request(app).get('/');
+
+    expect(tenant.body).toEqual({ id: 1 });
+    expect(shared.body).toEqual({ id: 1 });
+  });
+
+  it('should treat a malformed path segment as a missing tenant', async () => {
+    const app = express();
+    app.use(contextMiddleware({ tenant: { path: true, required: true } }));
+    app.get('/', countVisit);
+
+    const response = await request(app).get('/%E0%A4%A/orders');
+
+    expect(
+      resolveTenantId(
+        { url: '/%E0%A4%A/orders', headers: {} } as IncomingMessage,
+        {
+          path: true,
+        }
+      )
+    ).toBeUndefined();
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { contextMiddleware } from '../src/context-middleware';
+import {
+  getTraceHeaders,
+  injectTraceHeaders,
+  parseBaggage,
+  parseTracestate,
+  tracedFetch,
+  useTrace,
+} from '../src/trace-context';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('Trace context', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(contextMiddleware({ trace: true }));
+    app.get('/', (req, res) => {
+      res.json({ trace: useTrace(), outgoing: getTraceHeaders() });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should continue an inbound trace with a new span', async () => {
+    const response = await request(app)
+      .get('/')
+      .set('traceparent', TRACEPARENT)
+      .set('tracestate', 'vendor=abc, other=xyz')
+      .set('baggage', 'userId=42,region=eu%20west;ttl=60');
+
+    const { trace, outgoing } = response.body;
+    expect(trace.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(trace.parentSpanId).toBe('00f067aa0ba902b7');
+    expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(trace.spanId).not.toBe('00f067aa0ba902b7');
+    expect(trace.sampled).toBe(true);
+    expect(trace.tracestate).toEqual([
+      ['vendor', 'abc'],
+      ['other', 'xyz'],
+    ]);
+    expect(trace.baggage).toEqual({ userId: '42', region: 'eu west' });
+
+    expect(outgoing.traceparent).toMatch(
+      /^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/
+    );
+    expect(outgoing.tracestate).toBe('vendor=abc,other=xyz');
+    expect(outgoing.baggage).toBe('userId=42,region=eu%20west');
+  });
+
+  it('should start a new trace when traceparent is missing or invalid', async () => {
+    const response = await request(app)
+      .get('/')
+      .set('traceparent', 'not-a-traceparent')
+      .set('tracestate', 'vendor=abc');
+
+    const { trace } = response.body;
+    expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(trace.parentSpanId).toBeUndefined();
+    expect(trace.tracestate).toEqual([]);
+  });
+
+  it('should leave trace unset unless enabled', async () => {
+    const app = express();
+    app.use(contextMiddleware());
+    app.get('/', (req, res) => {
+      res.json({
+        hasTrace: useTrace() !== undefined,
+        headers: getTraceHeaders(),
+      });
+    });
+
+    const response = await request(app).get('/');
+    expect(response.body).toEqual({ hasTrace: false, headers: {} });
+  });
+
+  it('should inject headers into plain objects without mutating them', () => {
+    const trace = {
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      flags: '00',
+      sampled: false,
+      tracestate: [],
+      baggage: {},
+    };
+    const headers = { accept: 'application/json' };
+
+    const injected = injectTraceHeaders(headers, trace);
+
+    expect(headers).toEqual({ accept: 'application/json' });
+    expect(injected.accept).toBe('application/json');
+    expect(injected.traceparent).toMatch(
+      /^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-00$/
+    );
+  });
+
+  it('should add trace headers to fetch calls inside the request', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', fetch);
+
+    const app = express();
+    app.use(contextMiddleware({ trace: true }));
+    app.get('/', async (req, res) => {
+      await tracedFetch('https://example.test', { method: 'POST' });
+      res.sendStatus(204);
+    });
+    await request(app).get('/').set('traceparent', TRACEPARENT);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://example.test');
+    expect(init.method).toBe('POST');
+    expect(init.headers.get('traceparent')).toMatch(
+      /^00-4bf92f3577b34da6a3ce929d0e0e4736-/
+    );
+  });
+
+  it('should parse tracestate and baggage leniently', () => {
+    expect(parseTracestate('a=1,,=bad,b=2')).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+    ]);
+    expect(parseBaggage('k=%E0%A4%A,v=ok')).toEqual({ k: '%E0%A4%A', v: 'ok' });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { once } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { useContext } from '../src/context-middleware';
+import { runInContext } from '../src/run-in-context';
+import {
+  createContextWorker,
+  forkWithContext,
+  runInWorkerContext,
+} from '../src/worker-context';
+
+const workerModule = pathToFileURL(
+  path.resolve(__dirname, '../src/worker-context.ts')
+).href;
+const middlewareModule = pathToFileURL(
+  path.resolve(__dirname, '../src/context-middleware.ts')
+).href;
+
+// Runs the real runInWorkerContext: reports what it received, then sets rowCount.
+// The TypeScript sources are loaded through tsx.
+const workerScript = `
+  const { runInWorkerContext } = await import(${JSON.stringify(workerModule)});
+  const { useContext } = await import(${JSON.stringify(middlewareModule)});
+  const { parentPort, workerData } = await import('worker_threads');
+  const report = (message) =>
+    parentPort ? parentPort.postMessage(message) : process.send(message);
+  await runInWorkerContext(async () => {
+    report({
+      type: 'received',
+      tenantId: useContext()?.get('tenantId'),
+      since: useContext()?.get('since')?.toISOString(),
+      size: String(useContext()?.get('blob') ?? '').length,
+      env: Object.keys(process.env).filter((key) => key.startsWith('EXPRESS_CTX')),
+      workerData,
+    });
+    useContext()?.set('rowCount', 3);
+  });
+`;
+
+const workerEval = `(async () => {
+  const { register } = await import('tsx/esm/api');
+  register();
+  ${workerScript}
+})().catch((error) => { console.error(error); process.exit(1); });`;
+
+describe('createContextWorker', () => {
+  it('should send the selected keys and merge back the allowed ones', async () => {
+    // Plays the worker side by hand: echoes what it received, then reports new values
+    const workerSource = `
+      const { parentPort, workerData } = require('worker_threads');
+      const { __expressCtxSnapshot: snapshot, ...data } = workerData;
+      parentPort.postMessage({ type: 'received', keys: Object.keys(snapshot.entries), data });
+      parentPort.postMessage({
+        type: 'express-ctx:context',
+        snapshot: {
+          ...snapshot,
+          entries: { rowCount: { value: 3 }, tenantId: { value: 'changed' } },
+        },
+      });
+    `;
+    const result = await runInContext(
+      { tenantId: 't1', token: 'secret' },
+      async () => {
+        const worker = createContextWorker(workerSource, {
+          eval: true,
+          workerData: { reportId: 'r1' },
+          keys: ['contextId', 'tenantId'],
+          mergeBack: ['rowCount'],
+        });
+        const [received] = await once(worker, 'message');
+        await once(worker, 'exit');
+        return {
+          received: received.keys,
+          data: received.data,
+          rowCount: useContext()?.get('rowCount'),
+          tenantId: useContext()?.get('tenantId'),
+        };
+      }
+    );
+
+    expect(result).toEqual({
+      received: ['contextId', 'tenantId'],
+      data: { reportId: 'r1' },
+      rowCount: 3,
+      tenantId: 't1',
+    });
+  });
+
+  it('should restore the context with runInWorkerContext inside the worker', async () => {
+    const result = await runInContext(
+      { tenantId: 't1', since: new Date('2024-01-01T00:00:00.000Z') },
+      async () => {
+        const worker = createContextWorker(workerEval, {
+          eval: true,
+          workerData: { reportId: 'r1' },
+          mergeBack: ['rowCount'],
+        });
+        const [received] = await once(worker, 'message');
+        await once(worker, 'exit');
+        return { received, rowCount: useContext()?.get('rowCount') };
+      }
+    );
+
+    expect(result).toEqual({
+      received: {
+        type: 'received',
+        tenantId: 't1',
+        since: '2024-01-01T00:00:00.000Z',
+        size: 0,
+        env: [],
+        workerData: { reportId: 'r1' },
+      },
+      rowCount: 3,
+    });
+  }, 20000);
+
+  it('should reject workerData that is not an object', () => {
+    runInContext({}, () => {
+      expect(() =>
+        createContextWorker('', { eval: true, workerData: 'report' })
+      ).toThrow(TypeError);
+    });
+  });
+});
+
+describe('forkWithContext', () => {
+  it('should send large contexts over IPC instead of the environment', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'express-ctx-'));
+    const script = path.join(dir, 'child.mjs');
+    fs.writeFileSync(script, workerScript);
+
+    try {
+      const result = await runInContext(
+        { tenantId: 't1', blob: 'x'.repeat(200 * 1024) },
+        async () => {
+          const child = forkWithContext(script, [], {
+            execArgv: ['--import', 'tsx'],
+            keys: ['tenantId', 'blob'],
+            mergeBack: ['rowCount'],
+          });
+          const [received] = await once(child, 'message');
+          await once(child, 'exit');
+          return { received, rowCount: useContext()?.get('rowCount') };
+        }
+      );
+
+      expect(result.received).toMatchObject({
+        tenantId: 't1',
+        size: 200 * 1024,
+        env: [],
+      });
+      expect(result.rowCount).toBe(3);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }, 20000);
+});
+
+describe('runInWorkerContext', () => {
+  it('should run in an empty context outside a context worker', async () => {
+    const send = vi.fn();
+
+    const value = await runInWorkerContext(
+      () => useContext()?.get('since'),
+      undefined,
+      send
+    );
+
+    expect(value).toBeUndefined();
+    expect(send).not.toHaveBeenCalled();
+  });
+});